@@ -0,0 +1,5 @@
+const os = require('os');
+const path = require('path');
+
+// Keep test runs from rewriting the tracked generate_output.log
+process.env.LOG_FILE = path.join(os.tmpdir(), 'generate_output.test.log');
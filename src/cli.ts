@@ -10,11 +10,11 @@ try {
 
 import { buildPageObjects } from './utils/test-gen/pageObjectBuilder';
 import { buildScenario } from './utils/test-gen/scenarioBuilder';
-import { readFileSync, existsSync, writeFileSync } from 'fs';
+import { readFileSync, existsSync, writeFileSync, readdirSync } from 'fs';
 import { execSync } from 'child_process';
 import * as path from 'path';
 import { fetchDOM } from './utils/dom/domParser';
-import { createOllamaClient } from './utils/ai/ollamaClient';
+import { createOllamaClient, getSharedRequestQueue } from './utils/ai/ollamaClient';
 import { TIMEOUTS } from './utils/constants';
 import { InstructionParser } from './utils/test-gen/instructionParser';
 import { logger } from './utils/logger';
@@ -28,12 +28,31 @@ import { DuplicateGetterDetector } from './utils/test-gen/duplicateGetterDetecto
 import { HealingWorkflow } from './utils/healing/healingWorkflow';
 import { rerunFailedStepsService } from './utils/test-gen/rerunFailedSteps';
 import { InputValidator } from './utils/validation';
+import { getConfigManager } from './config';
+import { OllamaService } from './services/ollamaService';
+import { isLlmProviderType, LLM_PROVIDER_TYPES } from './utils/ai/llmProvider';
+import { promptTemplateManager } from './utils/ai/promptTemplates';
+import { DEFAULT_TEMPLATES_DIR } from './utils/ai/templatePacks';
+import { DEFAULT_CASSETTE_PATH } from './utils/ai/cassette';
+import { exampleLibrary, GOLDEN_TAG } from './utils/ai/exampleLibrary';
+import { analyzeDOM } from './utils/dom/domAnalyzer';
+import { buildScenarioPrompts } from './utils/test-gen/scenarioBuilder';
+import { PromptTelemetry } from './utils/ai/promptTelemetry';
+import { coverageAnalyzer, DEFAULT_COVERAGE_DIR } from './utils/test-gen/coverageAnalyzer';
+import { smokeSuiteSelector } from './utils/test-gen/smokeSuiteSelector';
+import {
+  DEFAULT_TRACEABILITY_DIR,
+  traceabilityReporter,
+} from './utils/test-gen/traceabilityReport';
+import { featureMerger } from './utils/test-gen/featureMerger';
+import { isGherkinLanguage } from './utils/test-gen/gherkinAst';
 
 interface TestGenerationConfig {
   ollamaModel?: string;
   ollamaBaseUrl?: string;
   testTimeout?: number;
   screenshotOnFailure?: boolean;
+  language?: string;
 }
 
 function validateEnvironment(): void {
@@ -72,7 +91,7 @@ function validateEnvironment(): void {
   console.log('✅ Environment validation passed');
 }
 
-async function generateTestArtifacts(
+export async function generateTestArtifacts(
   url: string,
   instruction: string,
   config: TestGenerationConfig = {}
@@ -103,6 +122,9 @@ async function generateTestArtifacts(
   } else {
     console.log('✅ Ollama service is ready - AI-powered generation enabled!\n');
   }
+  if (ollamaAvailable || process.env.OLLAMA_MODEL_DIGEST) {
+    await recordModelMetadata(config);
+  }
 
   console.log('\n🌐 Fetching DOM from:', url);
   const domContent = await fetchDOM(url);
@@ -112,13 +134,36 @@ async function generateTestArtifacts(
   const pageObjectPath = path.resolve('src/page-objects/generatedPage.ts');
 
   console.log('\n🎯 Generating scenarios and step definitions...');
-  const featureFilePath = await buildScenario(url, instruction);
+  const featureFilePath = await buildScenario(url, instruction, config.language);
 
   const stepDefinitionsPath = path.resolve('src/step-definitions/generatedSteps.ts');
 
   return { featureFilePath, pageObjectPath, stepDefinitionsPath };
 }
 
+/**
+ * Writes the Ollama model and digest used for generation to the run metadata file.
+ * An unreachable server only warns, unless OLLAMA_MODEL_DIGEST pins the model.
+ */
+async function recordModelMetadata(config: TestGenerationConfig): Promise<void> {
+  const ollamaService = new OllamaService({ model: config.ollamaModel });
+  // Replayed responses come from the cassette, not from the installed model
+  if (!ollamaService.usesOllama() || getConfigManager().getLlmConfig().cassetteMode === 'replay') {
+    return;
+  }
+
+  try {
+    await ollamaService.prepareModel();
+  } catch (error) {
+    if (process.env.OLLAMA_MODEL_DIGEST) {
+      throw error;
+    }
+    console.warn(
+      `⚠️ Model digest not recorded: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
 function runTests(featureFilePath: string, timeout: number = TIMEOUTS.DEFAULT_TEST_TIMEOUT): void {
   try {
     console.log('\n🧪 Running generated tests...');
@@ -258,6 +303,279 @@ function isValidUrl(urlString: string): boolean {
   }
 }
 
+/**
+ * Applies --provider / --base-url / --record / --replay / --no-ai-cache overrides on top of
+ * the LLM settings loaded from the environment
+ */
+function applyLlmOverrides(parsedArgs: Record<string, string | boolean>): void {
+  const configManager = getConfigManager();
+  const llm = { ...configManager.getLlmConfig() };
+
+  if (typeof parsedArgs['provider'] === 'string') {
+    const provider = parsedArgs['provider'].toLowerCase();
+    if (!isLlmProviderType(provider)) {
+      throw new Error(
+        `Unknown LLM provider "${parsedArgs['provider']}". Use one of: ${LLM_PROVIDER_TYPES.join(', ')}`
+      );
+    }
+    if (provider !== llm.provider && !process.env.LLM_BASE_URL) {
+      llm.baseUrl =
+        provider === 'ollama'
+          ? configManager.getOllamaConfig().baseUrl
+          : 'http://localhost:8080/v1';
+    }
+    llm.provider = provider;
+  }
+
+  if (typeof parsedArgs['base-url'] === 'string') {
+    llm.baseUrl = parsedArgs['base-url'];
+  }
+
+  for (const flag of ['record', 'replay']) {
+    if (parsedArgs[flag] === true) {
+      throw new Error(`--${flag} needs a cassette file, e.g. --${flag} ${DEFAULT_CASSETTE_PATH}`);
+    }
+  }
+
+  if (typeof parsedArgs['record'] === 'string' || typeof parsedArgs['replay'] === 'string') {
+    if (parsedArgs['record'] && parsedArgs['replay']) {
+      throw new Error('--record and --replay cannot be used together');
+    }
+    llm.cassetteMode = parsedArgs['record'] ? 'record' : 'replay';
+    llm.cassettePath = (parsedArgs['record'] || parsedArgs['replay']) as string;
+  }
+
+  const aiCache = { ...configManager.getAiCacheConfig() };
+  if (parsedArgs['ai-cache'] === false) {
+    aiCache.enabled = false;
+  }
+
+  configManager.updateConfig({ llm, aiCache });
+}
+
+/**
+ * Loads prompt template packs from --templates, PROMPT_TEMPLATES_DIR or ./prompt-templates
+ */
+function applyTemplatePacks(parsedArgs: Record<string, string | boolean>): void {
+  const explicitDir =
+    typeof parsedArgs['templates'] === 'string'
+      ? parsedArgs['templates']
+      : process.env.PROMPT_TEMPLATES_DIR;
+  const templatesDir = explicitDir || DEFAULT_TEMPLATES_DIR;
+
+  if (explicitDir && !existsSync(templatesDir)) {
+    throw new Error(`Prompt templates directory not found: ${templatesDir}`);
+  }
+
+  promptTemplateManager.loadTemplatePacks(templatesDir);
+}
+
+/**
+ * Prints the rendered scenario prompts for a URL without calling the LLM
+ */
+async function previewPrompts(
+  url: string,
+  instruction: string,
+  type?: string,
+  language?: string
+): Promise<void> {
+  if (type && !promptTemplateManager.hasTemplate(type)) {
+    const available = promptTemplateManager.getAllTemplates().map((t) => t.type);
+    throw new Error(`Unknown scenario type "${type}". Available: ${available.join(', ')}`);
+  }
+
+  console.log('\n🌐 Fetching DOM from:', url);
+  const analysis = analyzeDOM(await fetchDOM(url));
+
+  const prompts = type
+    ? new Map([
+        [type, promptTemplateManager.generatePromptForType(type, analysis, instruction, language)],
+      ])
+    : buildScenarioPrompts(analysis, instruction, language);
+
+  for (const [scenarioType, prompt] of prompts) {
+    const template = promptTemplateManager.getTemplate(scenarioType);
+    console.log(`\n═══ ${scenarioType}: ${template.title} ═══\n`);
+    console.log(prompt);
+  }
+}
+
+/**
+ * Imports @golden scenarios (.feature) or step definitions (.ts) into the example library
+ */
+function markGolden(filePath: string): void {
+  const added = filePath.endsWith('.feature')
+    ? exampleLibrary.importFromFeature(filePath)
+    : exampleLibrary.importFromStepDefinitions(filePath);
+
+  console.log(`✅ Imported ${GOLDEN_TAG} examples from ${filePath} (${added} new)`);
+  console.log(`📚 Example library: ${exampleLibrary.getFilePath()}`);
+}
+
+/**
+ * Prints prompt types ranked by token cost with their latency, retry and failure rates
+ */
+function printTelemetrySummary(filePath?: string): void {
+  const telemetry = new PromptTelemetry(
+    path.resolve(filePath || getConfigManager().getTelemetryConfig().file)
+  );
+  const summaries = telemetry.summarize();
+
+  if (summaries.length === 0) {
+    console.log(`ℹ️ No prompt telemetry recorded in ${telemetry.getFilePath()}`);
+    return;
+  }
+
+  console.log(`📊 Prompt telemetry (${telemetry.getFilePath()})\n`);
+  console.log(telemetry.formatSummary(summaries));
+
+  const mostFailing = [...summaries].sort((a, b) => b.failureRate - a.failureRate)[0];
+  if (mostFailing.failureRate > 0) {
+    console.log(
+      `\n⚠️ Highest failure rate: ${mostFailing.promptType} (${(mostFailing.failureRate * 100).toFixed(1)}%)`
+    );
+  }
+}
+
+/**
+ * Prints how long this run's AI requests waited in the cross-process queue, if it was used
+ */
+function reportQueueStats(): void {
+  const stats = getSharedRequestQueue()?.getStats();
+  if (!stats || stats.acquired + stats.timeouts === 0) {
+    return;
+  }
+  console.log(
+    `📬 AI queue: ${stats.acquired} request(s), ${stats.queued} waited (max depth ${stats.maxQueueDepth}), ` +
+      `wait avg ${stats.averageWaitMs}ms / max ${stats.maxWaitMs}ms, ${stats.timeouts} timeout(s)`
+  );
+}
+
+/**
+ * Files in a directory with the given extension; none if the directory does not exist
+ */
+function listFiles(dir: string, extension: string): string[] {
+  return existsSync(dir)
+    ? readdirSync(dir)
+        .filter((file) => file.endsWith(extension))
+        .map((file) => path.join(dir, file))
+    : [];
+}
+
+/**
+ * Maps the page's elements to the scenarios exercising them and writes the JSON/HTML matrix
+ */
+async function reportCoverage(url: string, outputDir?: string): Promise<void> {
+  console.log('\n🌐 Fetching DOM from:', url);
+  const analysis = analyzeDOM(await fetchDOM(url));
+
+  const report = coverageAnalyzer.analyze(analysis, {
+    featureFiles: listFiles(path.resolve('src/features'), '.feature'),
+    pageObjectFiles: listFiles(path.resolve('src/page-objects'), '.ts'),
+    stepDefinitionFiles: listFiles(path.resolve('src/step-definitions'), '.ts'),
+  });
+  const { json, html } = coverageAnalyzer.writeReport(report, outputDir || DEFAULT_COVERAGE_DIR);
+
+  const { covered, elements, percent } = report.summary;
+  console.log(`📊 Element coverage: ${covered}/${elements} (${percent}%)`);
+  const untested = report.elements.filter((element) => !element.covered);
+  if (untested.length > 0) {
+    console.log('⚠️ Untested elements:');
+    untested.forEach((e) => console.log(`   - ${e.kind}: ${e.name} (${e.selector})`));
+  }
+  if (report.suggestions.length > 0) {
+    console.log('💡 Suggested scenarios:');
+    report.suggestions.forEach((suggestion) => console.log(`   - ${suggestion}`));
+  }
+  console.log(`📄 Coverage matrix: ${json}`);
+  console.log(`📄 HTML report: ${html}`);
+}
+
+/**
+ * Maps requirement tags in the feature files to their scenarios and latest results
+ */
+function reportTraceability(outputDir?: string): void {
+  const report = traceabilityReporter.buildFromTracker(
+    listFiles(path.resolve('src/features'), '.feature')
+  );
+  const { csv, html } = traceabilityReporter.writeReport(
+    report,
+    outputDir || DEFAULT_TRACEABILITY_DIR
+  );
+
+  const { requirements, passed, failed, notRun } = report.summary;
+  console.log(
+    `📊 Requirements: ${requirements} (${passed} passed, ${failed} failed, ${notRun} not run)`
+  );
+  report.requirements
+    .filter((requirement) => requirement.status !== 'passed')
+    .forEach((requirement) =>
+      console.log(
+        `   ${requirement.status === 'failed' ? '❌' : '⏸️'} ${requirement.requirement}: ${requirement.scenarios
+          .filter((scenario) => scenario.status !== 'passed')
+          .map((scenario) => `${scenario.scenario} (${scenario.status})`)
+          .join(', ')}`
+      )
+    );
+  console.log(`📄 Traceability CSV: ${csv}`);
+  console.log(`📄 HTML report: ${html}`);
+}
+
+/**
+ * Picks the highest-risk scenarios that fit the time budget, writes the spec filter and runs them
+ */
+function runSmokeSuite(budgetMinutes: number | undefined, timeout: number, run: boolean): void {
+  const selection = smokeSuiteSelector.selectFromTracker(
+    listFiles(path.resolve('src/features'), '.feature'),
+    budgetMinutes
+  );
+  const selectionPath = smokeSuiteSelector.writeSelection(selection);
+
+  console.log(`\n🔥 Smoke suite (budget: ${selection.budgetMinutes} min)`);
+  console.log(smokeSuiteSelector.formatExplanation(selection));
+  console.log(`📄 Spec filter: ${selectionPath}`);
+
+  if (selection.specs.length === 0) {
+    console.log('⚠️ No scenario fits the budget; nothing to run');
+    return;
+  }
+  if (!run) {
+    console.log('\n⏭️ Skipping test execution (--no-run flag set)');
+    return;
+  }
+
+  const wdioCommand = [
+    'npx wdio run ./wdio.conf.ts',
+    selection.specs.map((spec) => `--spec ${spec}`).join(' '),
+    `--mochaOpts.timeout ${timeout}`,
+  ].join(' ');
+
+  console.log(`🚀 Test command: ${wdioCommand}`);
+  execSync(wdioCommand, { stdio: 'inherit' });
+  console.log('✅ Smoke suite completed successfully!');
+}
+
+/**
+ * Returns the positional arguments, skipping option values consumed by parseArgs
+ */
+function getPositionalArgs(args: string[]): string[] {
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg.startsWith('--')) {
+      if (!arg.startsWith('--no-') && i + 1 < args.length && !args[i + 1].startsWith('--')) {
+        i++;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return positional;
+}
+
 /**
  * Parses command line arguments into a key-value object
  */
@@ -288,7 +606,8 @@ function parseArgs(args: string[]): Record<string, string | boolean> {
  */
 async function generateArtifactsFromInstructions(
   instructionsPath: string,
-  config: TestGenerationConfig = {}
+  config: TestGenerationConfig = {},
+  force = false
 ): Promise<{
   featureFilePath: string;
   pageObjectPath: string;
@@ -300,6 +619,9 @@ async function generateArtifactsFromInstructions(
 
   console.log('\n📖 Loading instructions from:', instructionsPath);
   const instructions = JSON.parse(readFileSync(instructionsPath, 'utf-8'));
+  if (config.language) {
+    instructions.language = config.language;
+  }
 
   // Extract URL from instructions
   const url = instructions.url;
@@ -312,6 +634,8 @@ async function generateArtifactsFromInstructions(
   console.log(`✅ Description: ${instructions.description}`);
   console.log(`✅ Test cases: ${instructions.testCases.length}`);
 
+  await recordModelMetadata(config);
+
   // Generate artifacts from instructions
   console.log('\n🔄 Generating artifacts from instructions...');
   const parser = new InstructionParser();
@@ -342,14 +666,55 @@ async function generateArtifactsFromInstructions(
   // Save feature file
   const featureFileName = `${instructions.projectName.toLowerCase().replace(/\s+/g, '_')}.feature`;
   const featureFilePath = path.resolve('src/features', featureFileName);
-  writeFileSync(featureFilePath, artifacts.featureFile);
+  // Merge into the existing file so @manual and hand-edited scenarios survive (--force overwrites)
+  const merge = featureMerger.writeFeature(featureFilePath, artifacts.featureFile, force);
   console.log(`✅ Feature File saved: ${featureFilePath}`);
+  console.log(`📝 ${featureMerger.formatSummary(merge)}`);
 
   // Save step definitions
   const stepDefinitionsPath = path.resolve('src/step-definitions/generatedSteps.ts');
+  const previousStepDefinitions = existsSync(stepDefinitionsPath)
+    ? readFileSync(stepDefinitionsPath, 'utf-8')
+    : '';
   writeFileSync(stepDefinitionsPath, artifacts.stepDefinitions);
   console.log(`✅ Step Definitions saved: ${stepDefinitionsPath}`);
 
+  // Step definitions come from the new output only; scenarios the merge kept get the
+  // definitions they had in the previous file
+  const findUndefinedSteps = () =>
+    coverageAnalyzer.findUndefinedSteps(
+      featureFilePath,
+      listFiles(path.resolve('src/step-definitions'), '.ts')
+    );
+  let undefinedSteps = findUndefinedSteps();
+  const keptDefinitions = coverageAnalyzer.extractStepDefinitions(
+    previousStepDefinitions,
+    undefinedSteps.map(({ step }) => step)
+  );
+  if (keptDefinitions.length > 0) {
+    writeFileSync(
+      stepDefinitionsPath,
+      `${artifacts.stepDefinitions.trimEnd()}
+
+// Kept from the previous generation for scenarios the feature merge kept
+
+${keptDefinitions.join('\n\n')}
+`
+    );
+    console.log(`♻️ Kept ${keptDefinitions.length} step definition(s) used by kept scenarios`);
+    undefinedSteps = findUndefinedSteps();
+  }
+  if (undefinedSteps.length > 0) {
+    const actions = new Map(merge.entries.map((entry) => [entry.title, entry.action]));
+    console.warn(
+      `⚠️ ${undefinedSteps.length} step(s) in ${featureFileName} have no step definition:`
+    );
+    for (const { scenario, step } of undefinedSteps) {
+      const action = actions.get(scenario);
+      console.warn(`   - ${scenario}${action ? ` (${action})` : ''}: ${step}`);
+    }
+  }
+
   return { featureFilePath, pageObjectPath, stepDefinitionsPath };
 }
 
@@ -530,9 +895,17 @@ async function main() {
       typeof parsedArgs['timeout'] === 'string' ? parsedArgs['timeout'] : undefined
     ),
     screenshotOnFailure: parsedArgs['screenshots'] !== false,
+    language: typeof parsedArgs['language'] === 'string' ? parsedArgs['language'] : undefined,
   };
 
   try {
+    if (config.language && !isGherkinLanguage(config.language)) {
+      throw new Error(`Unknown Gherkin language "${config.language}" (e.g. en, de, es, fr)`);
+    }
+    applyLlmOverrides(parsedArgs);
+    getConfigManager().assertValid();
+    applyTemplatePacks(parsedArgs);
+
     // Handle --validate flag (standalone, no test generation)
     if (shouldValidate) {
       validateEnvironment();
@@ -568,6 +941,72 @@ async function main() {
       process.exit(0);
     }
 
+    // Handle --mark-golden flag (standalone, store accepted examples for few-shot prompts)
+    if (typeof parsedArgs['mark-golden'] === 'string') {
+      markGolden(parsedArgs['mark-golden']);
+      process.exit(0);
+    }
+
+    // Handle --telemetry-summary flag (standalone, rank prompt types by cost and failure rate)
+    if (parsedArgs['telemetry-summary']) {
+      printTelemetrySummary(
+        typeof parsedArgs['telemetry-summary'] === 'string'
+          ? parsedArgs['telemetry-summary']
+          : undefined
+      );
+      process.exit(0);
+    }
+
+    // Handle --coverage flag (standalone, element-to-scenario coverage matrix for a page)
+    if (parsedArgs['coverage']) {
+      const [url] = getPositionalArgs(process.argv.slice(2));
+      if (!url) {
+        throw new Error('Usage: ts-node src/cli.ts <url> --coverage [<output dir>]');
+      }
+      await reportCoverage(
+        InputValidator.validateURL(url),
+        typeof parsedArgs['coverage'] === 'string' ? parsedArgs['coverage'] : undefined
+      );
+      process.exit(0);
+    }
+
+    // Handle --smoke / --budget flags (standalone, risk-based selection within a time budget)
+    if (parsedArgs['smoke'] || parsedArgs['budget'] !== undefined) {
+      runSmokeSuite(
+        parsedArgs['budget'] !== undefined
+          ? InputValidator.validateBudget(parsedArgs['budget'])
+          : undefined,
+        config.testTimeout || TIMEOUTS.DEFAULT_TEST_TIMEOUT,
+        shouldRunTests
+      );
+      process.exit(0);
+    }
+
+    // Handle --traceability flag (standalone, requirement-to-scenario report with latest results)
+    if (parsedArgs['traceability']) {
+      reportTraceability(
+        typeof parsedArgs['traceability'] === 'string' ? parsedArgs['traceability'] : undefined
+      );
+      process.exit(0);
+    }
+
+    // Handle --preview-prompt flag (standalone, print rendered prompts without calling the LLM)
+    if (parsedArgs['preview-prompt']) {
+      const [url, ...instructionParts] = getPositionalArgs(process.argv.slice(2));
+      if (!url || instructionParts.length === 0) {
+        throw new Error(
+          'Usage: ts-node src/cli.ts <url> "<test instruction>" --preview-prompt [<type>]'
+        );
+      }
+      await previewPrompts(
+        InputValidator.validateURL(url),
+        InputValidator.sanitizePrompt(instructionParts.join(' ')),
+        typeof parsedArgs['preview-prompt'] === 'string' ? parsedArgs['preview-prompt'] : undefined,
+        config.language
+      );
+      process.exit(0);
+    }
+
     validateEnvironment();
 
     // Check if using instructions file
@@ -588,7 +1027,11 @@ async function main() {
         ].join('\n')
       );
 
-      const { featureFilePath } = await generateArtifactsFromInstructions(instructionsPath, config);
+      const { featureFilePath } = await generateArtifactsFromInstructions(
+        instructionsPath,
+        config,
+        Boolean(parsedArgs['force'])
+      );
 
       if (shouldRunTests) {
         runTests(featureFilePath, config.testTimeout);
@@ -597,9 +1040,7 @@ async function main() {
       }
     } else {
       // Original URL + instruction mode
-      const [url, ...instructionParts] = process.argv
-        .slice(2)
-        .filter((arg) => !arg.startsWith('--'));
+      const [url, ...instructionParts] = getPositionalArgs(process.argv.slice(2));
 
       if (!url || instructionParts.length === 0) {
         console.error(
@@ -626,10 +1067,43 @@ async function main() {
             '  Mode 7 - Run Healing Workflow:',
             '    ts-node src/cli.ts --healing',
             '',
+            '  Mode 8 - Preview Scenario Prompts:',
+            '    ts-node src/cli.ts <url> "<test instruction>" --preview-prompt [<type>]',
+            '',
+            '  Mode 9 - Mark Golden Examples:',
+            '    ts-node src/cli.ts --mark-golden <file.feature | generatedSteps.ts>',
+            '',
+            '  Mode 10 - Prompt Telemetry Summary:',
+            '    ts-node src/cli.ts --telemetry-summary [<file.jsonl>]',
+            '',
+            '  Mode 11 - Element Coverage Matrix:',
+            '    ts-node src/cli.ts <url> --coverage [<output dir>]',
+            '',
+            '  Mode 12 - Requirement Traceability Report:',
+            '    ts-node src/cli.ts --traceability [<output dir>]',
+            '',
+            '  Mode 13 - Risk-Based Smoke Suite:',
+            '    ts-node src/cli.ts --smoke [--budget <minutes>] [--no-run]',
+            '',
             'Options:',
             '  --model <model>      Ollama model to use (default: llama3)',
+            '  --provider <name>    LLM provider: ollama | openai-compatible (default: ollama)',
+            '  --base-url <url>     Base URL of the LLM server (overrides LLM_BASE_URL)',
+            '  --record <file>      Record every LLM prompt/response pair to a cassette file',
+            '  --replay <file>      Serve LLM responses from a cassette file (no LLM server needed)',
+            '  --no-ai-cache        Ignore and do not update the on-disk LLM response cache',
+            '  --templates <dir>    Prompt template packs directory (default: ./prompt-templates)',
+            '  --preview-prompt     Print the rendered scenario prompts (optionally for one type)',
+            '  --mark-golden <file> Store @golden scenarios/steps as few-shot examples',
+            '  --telemetry-summary  Rank prompt types by token cost and failure rate',
+            '  --coverage [<dir>]   Write the element coverage matrix (default: reports/coverage)',
+            '  --traceability [<dir>] Write the requirement traceability report (default: reports/traceability)',
+            '  --smoke              Run the highest-risk scenarios that fit the budget',
+            '  --budget <minutes>   Time budget for --smoke (default: 5)',
+            '  --language <code>    Gherkin language of generated features, e.g. de, es (default: en)',
             '  --timeout <ms>       Test timeout in milliseconds (default: 60000)',
             '  --no-run             Generate tests without executing them',
+            '  --force              Overwrite feature files instead of keeping @manual/edited scenarios',
             '  --validate           Dry-run: Check if all selectors exist in DOM',
             '  --rerun              Re-run failed tests from last execution',
             '  --rerun-steps        Rerun failed steps with artifact regeneration',
@@ -640,13 +1114,23 @@ async function main() {
             'Examples:',
             '  ts-node src/cli.ts https://example.com "Test login" --model llama3',
             '  ts-node src/cli.ts --instructions instructions.json --no-run',
+            '  ts-node src/cli.ts https://example.com "Test login" --provider openai-compatible --base-url http://localhost:8080/v1',
+            '  ts-node src/cli.ts https://example.com "Test login" --no-run --replay cassettes/login.json',
             '  ts-node src/cli.ts --instructions ./custom-instructions.json',
+            '  ts-node src/cli.ts --instructions instructions.json --no-run --force',
+            '  ts-node src/cli.ts https://example.com "Test login" --no-run --language de',
             '  ts-node src/cli.ts --validate',
             '  ts-node src/cli.ts --rerun',
             '  ts-node src/cli.ts --rerun-steps',
             '  ts-node src/cli.ts --check-duplicates',
             '  ts-node src/cli.ts --check-duplicates --fix',
             '  ts-node src/cli.ts --healing',
+            '  ts-node src/cli.ts https://example.com "Test login" --preview-prompt negative',
+            '  ts-node src/cli.ts --mark-golden src/features/login.feature',
+            '  ts-node src/cli.ts --telemetry-summary',
+            '  ts-node src/cli.ts https://example.com/login --coverage',
+            '  ts-node src/cli.ts --traceability',
+            '  ts-node src/cli.ts --smoke --budget 10',
           ].join('\n')
         );
         process.exit(1);
@@ -676,11 +1160,15 @@ async function main() {
       }
     }
 
+    reportQueueStats();
     console.log('\n🎉 Test generation completed successfully!');
   } catch (error) {
+    reportQueueStats();
     console.error('\n❌ Test generation failed:', error instanceof Error ? error.message : error);
     process.exit(1);
   }
 }
 
-main().catch(console.error);
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,57 @@
+/**
+ * ConfigManager Tests
+ * Misspelled LLM settings must stop the run instead of falling back to a live Ollama model
+ */
+
+import { createLlmProvider } from '../utils/ai/providers';
+import { LlmProviderType } from '../utils/ai/llmProvider';
+import { ValidationError } from '../utils/errors';
+
+describe('ConfigManager validation', () => {
+  const originalEnv = process.env;
+
+  const loadConfigManager = (env: Record<string, string>) => {
+    process.env = { ...originalEnv, ...env };
+    jest.resetModules();
+    return (require('./index') as typeof import('./index')).getConfigManager();
+  };
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test('should accept the default settings', () => {
+    expect(() => loadConfigManager({}).assertValid()).not.toThrow();
+  });
+
+  test('should reject an unknown LLM_PROVIDER', () => {
+    const configManager = loadConfigManager({ LLM_PROVIDER: 'openai' });
+
+    expect(() => configManager.assertValid()).toThrow(
+      'LLM_PROVIDER must be one of: ollama, openai-compatible'
+    );
+  });
+
+  test('should reject an unknown LLM_CASSETTE_MODE', () => {
+    const configManager = loadConfigManager({ LLM_CASSETTE_MODE: 'replya' });
+
+    expect(() => configManager.assertValid()).toThrow(
+      'LLM_CASSETTE_MODE must be one of: off, record, replay'
+    );
+    const { createOllamaClient } =
+      require('../utils/ai/ollamaClient') as typeof import('../utils/ai/ollamaClient');
+    expect(() => createOllamaClient()).toThrow('(got "replya")');
+  });
+});
+
+describe('createLlmProvider', () => {
+  test('should not fall back to Ollama for an unknown provider type', () => {
+    expect(() =>
+      createLlmProvider('openai' as LlmProviderType, {
+        baseUrl: 'http://localhost:8080/v1',
+        model: 'llama3',
+        timeout: 1000,
+      })
+    ).toThrow(ValidationError);
+  });
+});
@@ -1,3 +1,9 @@
+import { LLM_PROVIDER_TYPES, LlmProviderType } from '../utils/ai/llmProvider';
+import { DOM_CONFIG } from '../utils/constants';
+import { CASSETTE_MODES, CassetteMode, DEFAULT_CASSETTE_PATH } from '../utils/ai/cassette';
+import { MATCHING_BACKENDS, MatchingBackendType } from '../utils/ai/semanticMatcher';
+import { ValidationError } from '../utils/errors';
+
 export interface OllamaConfig {
   baseUrl: string;
   model: string;
@@ -6,6 +12,43 @@ export interface OllamaConfig {
   retryDelayMs: number;
 }
 
+export interface LlmConfig {
+  provider: LlmProviderType;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  cassetteMode: CassetteMode;
+  cassettePath: string;
+}
+
+export interface AiCacheConfig {
+  enabled: boolean;
+  dir: string;
+  ttlHours: number;
+  maxSizeMb: number;
+}
+
+export interface AiQueueConfig {
+  enabled: boolean;
+  /** Directory holding the lock files shared by all worker processes */
+  dir: string;
+  maxConcurrency: number;
+  acquireTimeoutMs: number;
+}
+
+export interface MatchingConfig {
+  /** How elements are matched to step phrases in healing, SmartLocator and step generation */
+  backend: MatchingBackendType;
+  /** Ollama model used when backend is "embeddings" */
+  embeddingModel: string;
+}
+
+export interface TelemetryConfig {
+  enabled: boolean;
+  /** JSONL file every AI call and output validation is appended to */
+  file: string;
+}
+
 export interface WebdriverConfig {
   headless: boolean;
   browser: 'chrome' | 'firefox' | 'safari' | 'edge';
@@ -16,10 +59,17 @@ export interface GenerationConfig {
   outputDir: string;
   overwrite: boolean;
   includeComments: boolean;
+  /** Token budget for DOM snippets embedded in prompts */
+  domTokenBudget: number;
 }
 
 export interface FrameworkConfig {
   ollama: OllamaConfig;
+  llm: LlmConfig;
+  aiCache: AiCacheConfig;
+  aiQueue: AiQueueConfig;
+  matching: MatchingConfig;
+  telemetry: TelemetryConfig;
   webdriver: WebdriverConfig;
   generation: GenerationConfig;
 }
@@ -40,13 +90,36 @@ export class ConfigManager {
   }
 
   private loadConfig(): FrameworkConfig {
+    const ollama: OllamaConfig = {
+      baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
+      model: process.env.OLLAMA_MODEL || 'llama3',
+      timeout: this.parseNumber(process.env.OLLAMA_TIMEOUT, 30000),
+      maxRetries: this.parseNumber(process.env.OLLAMA_MAX_RETRIES, 3),
+      retryDelayMs: this.parseNumber(process.env.OLLAMA_RETRY_DELAY_MS, 1000),
+    };
+
     return {
-      ollama: {
-        baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
-        model: process.env.OLLAMA_MODEL || 'llama3',
-        timeout: this.parseNumber(process.env.OLLAMA_TIMEOUT, 30000),
-        maxRetries: this.parseNumber(process.env.OLLAMA_MAX_RETRIES, 3),
-        retryDelayMs: this.parseNumber(process.env.OLLAMA_RETRY_DELAY_MS, 1000),
+      ollama,
+      llm: this.loadLlmConfig(ollama),
+      aiCache: {
+        enabled: this.parseBoolean(process.env.AI_CACHE, true),
+        dir: process.env.AI_CACHE_DIR || '.cache/llm',
+        ttlHours: this.parseNumber(process.env.AI_CACHE_TTL_HOURS, 24),
+        maxSizeMb: this.parseNumber(process.env.AI_CACHE_MAX_MB, 100),
+      },
+      aiQueue: {
+        enabled: this.parseBoolean(process.env.AI_QUEUE, true),
+        dir: process.env.AI_QUEUE_DIR || '.cache/ai-queue',
+        maxConcurrency: this.parseNumber(process.env.AI_MAX_CONCURRENCY, 2),
+        acquireTimeoutMs: this.parseNumber(process.env.AI_QUEUE_TIMEOUT_MS, 300000),
+      },
+      matching: {
+        backend: (process.env.ELEMENT_MATCHING || 'tfidf').toLowerCase() as MatchingBackendType,
+        embeddingModel: process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text',
+      },
+      telemetry: {
+        enabled: this.parseBoolean(process.env.PROMPT_TELEMETRY, true),
+        file: process.env.PROMPT_TELEMETRY_FILE || '.cache/telemetry/prompts.jsonl',
       },
       webdriver: {
         headless: this.parseBoolean(process.env.HEADLESS, true),
@@ -57,10 +130,32 @@ export class ConfigManager {
         outputDir: process.env.OUTPUT_DIR || './src/features',
         overwrite: this.parseBoolean(process.env.OVERWRITE, false),
         includeComments: this.parseBoolean(process.env.INCLUDE_COMMENTS, true),
+        domTokenBudget: this.parseNumber(
+          process.env.DOM_TOKEN_BUDGET,
+          DOM_CONFIG.DEFAULT_TOKEN_BUDGET
+        ),
       },
     };
   }
 
+  /**
+   * LLM_* variables select the inference server; when they are absent the
+   * OLLAMA_* settings are reused so existing .env files keep working
+   */
+  private loadLlmConfig(ollama: OllamaConfig): LlmConfig {
+    const provider = (process.env.LLM_PROVIDER || 'ollama').toLowerCase() as LlmProviderType;
+    const defaultBaseUrl = provider === 'ollama' ? ollama.baseUrl : 'http://localhost:8080/v1';
+
+    return {
+      provider,
+      baseUrl: process.env.LLM_BASE_URL || defaultBaseUrl,
+      model: process.env.LLM_MODEL || ollama.model,
+      apiKey: process.env.LLM_API_KEY,
+      cassetteMode: (process.env.LLM_CASSETTE_MODE || 'off').toLowerCase() as CassetteMode,
+      cassettePath: process.env.LLM_CASSETTE || DEFAULT_CASSETTE_PATH,
+    };
+  }
+
   private parseNumber(value: string | undefined, defaultValue: number): number {
     if (!value) return defaultValue;
     const num = parseInt(value, 10);
@@ -80,6 +175,26 @@ export class ConfigManager {
     return this.config.ollama;
   }
 
+  public getLlmConfig(): LlmConfig {
+    return this.config.llm;
+  }
+
+  public getAiCacheConfig(): AiCacheConfig {
+    return this.config.aiCache;
+  }
+
+  public getAiQueueConfig(): AiQueueConfig {
+    return this.config.aiQueue;
+  }
+
+  public getMatchingConfig(): MatchingConfig {
+    return this.config.matching;
+  }
+
+  public getTelemetryConfig(): TelemetryConfig {
+    return this.config.telemetry;
+  }
+
   public getWebdriverConfig(): WebdriverConfig {
     return this.config.webdriver;
   }
@@ -110,6 +225,34 @@ export class ConfigManager {
       errors.push('OLLAMA_TIMEOUT must be greater than 0');
     }
 
+    if (!LLM_PROVIDER_TYPES.includes(this.config.llm.provider)) {
+      errors.push(`LLM_PROVIDER must be one of: ${LLM_PROVIDER_TYPES.join(', ')}`);
+    }
+
+    if (!this.config.llm.baseUrl) {
+      errors.push('LLM_BASE_URL is required');
+    }
+
+    if (!CASSETTE_MODES.includes(this.config.llm.cassetteMode)) {
+      errors.push(`LLM_CASSETTE_MODE must be one of: ${CASSETTE_MODES.join(', ')}`);
+    }
+
+    if (this.config.aiCache.ttlHours <= 0 || this.config.aiCache.maxSizeMb <= 0) {
+      errors.push('AI_CACHE_TTL_HOURS and AI_CACHE_MAX_MB must be greater than 0');
+    }
+
+    if (this.config.aiQueue.maxConcurrency <= 0 || this.config.aiQueue.acquireTimeoutMs <= 0) {
+      errors.push('AI_MAX_CONCURRENCY and AI_QUEUE_TIMEOUT_MS must be greater than 0');
+    }
+
+    if (!MATCHING_BACKENDS.includes(this.config.matching.backend)) {
+      errors.push(`ELEMENT_MATCHING must be one of: ${MATCHING_BACKENDS.join(', ')}`);
+    }
+
+    if (this.config.generation.domTokenBudget <= 0) {
+      errors.push('DOM_TOKEN_BUDGET must be greater than 0');
+    }
+
     if (this.config.webdriver.timeout <= 0) {
       errors.push('WDIO_TIMEOUT must be greater than 0');
     }
@@ -121,6 +264,19 @@ export class ConfigManager {
 
     return errors;
   }
+
+  /**
+   * @throws ValidationError listing every invalid setting, so a typo in .env stops the run
+   * instead of silently falling back to a default
+   */
+  public assertValid(): void {
+    const errors = this.validateConfig();
+    if (errors.length > 0) {
+      throw new ValidationError(`Invalid configuration:\n  - ${errors.join('\n  - ')}`, {
+        errors,
+      });
+    }
+  }
 }
 
 export function getConfig(): FrameworkConfig {
@@ -0,0 +1,70 @@
+/**
+ * OllamaService Tests
+ * The model check follows the LLM settings and records the digest of the model actually used
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MockOllamaServer } from '../utils/ai/mockOllamaServer';
+
+describe('OllamaService', () => {
+  const originalEnv = process.env;
+  let server: MockOllamaServer;
+  let baseUrl: string;
+  let workDir: string;
+  let metadataFile: string;
+
+  const createService = (env: Record<string, string>, model?: string) => {
+    process.env = { ...originalEnv, RUN_METADATA_FILE: metadataFile, ...env };
+    jest.resetModules();
+    const { OllamaService } = require('./ollamaService') as typeof import('./ollamaService');
+    return new OllamaService({ model });
+  };
+
+  beforeEach(async () => {
+    server = new MockOllamaServer({ models: ['llama3:latest', 'mistral:latest'] });
+    baseUrl = await server.start();
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ollama-service-'));
+    metadataFile = path.join(workDir, 'run-metadata.json');
+  });
+
+  afterEach(async () => {
+    process.env = originalEnv;
+    await server.stop();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('should verify and record LLM_MODEL instead of OLLAMA_MODEL', async () => {
+    const service = createService({
+      OLLAMA_BASE_URL: 'http://127.0.0.1:9',
+      OLLAMA_MODEL: 'llama3',
+      LLM_BASE_URL: baseUrl,
+      LLM_MODEL: 'mistral',
+    });
+
+    const metadata = await service.prepareModel();
+
+    expect(metadata).toMatchObject({ model: 'mistral:latest', ollamaUrl: baseUrl });
+    expect(JSON.parse(fs.readFileSync(metadataFile, 'utf-8')).model).toBe('mistral:latest');
+  });
+
+  test('should check the model passed in the options', async () => {
+    const service = createService({ LLM_BASE_URL: baseUrl, LLM_MODEL: 'mistral' }, 'llama3');
+
+    await expect(service.verifyModel()).resolves.toMatchObject({ name: 'llama3:latest' });
+  });
+
+  test('should skip the model check for other providers', async () => {
+    const service = createService({
+      LLM_PROVIDER: 'openai-compatible',
+      LLM_BASE_URL: baseUrl,
+      LLM_MODEL: 'not-installed',
+    });
+
+    expect(service.usesOllama()).toBe(false);
+    await service.onPrepare();
+    expect(server.getRequests()).toEqual([]);
+    expect(fs.existsSync(metadataFile)).toBe(false);
+  });
+});
@@ -1,22 +1,97 @@
 import { execSync, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import fetch from 'node-fetch';
+import { ModelVerificationError } from '../utils/errors';
+import { getConfigManager } from '../config';
+
+export interface OllamaModelInfo {
+  name: string;
+  digest: string;
+  size: number;
+  modifiedAt: string;
+}
+
+export interface RunMetadata {
+  model: string;
+  digest: string;
+  ollamaUrl: string;
+  recordedAt: string;
+}
+
+/**
+ * Adds the implicit ":latest" tag so "llama3" matches "llama3:latest" from /api/tags
+ */
+function normalizeModelName(name: string): string {
+  return name.includes(':') ? name : `${name}:latest`;
+}
+
+function normalizeDigest(digest: string): string {
+  return digest
+    .trim()
+    .toLowerCase()
+    .replace(/^sha256:/, '');
+}
+
+export interface OllamaServiceOptions {
+  /** Overrides the model from the LLM settings, e.g. the CLI --model flag */
+  model?: string;
+}
 
 /**
  * WebdriverIO Service for Ollama AI
- * Automatically checks and starts Ollama service before tests run
+ * Automatically checks and starts Ollama service before tests run, then verifies that
+ * the configured model (LLM_MODEL, else OLLAMA_MODEL) is installed and matches
+ * OLLAMA_MODEL_DIGEST when pinned. Nothing is checked when LLM_PROVIDER is not ollama.
  */
 export class OllamaService {
   private ollamaProcess: any = null;
-  private readonly OLLAMA_URL = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+  private readonly llmConfig = getConfigManager().getLlmConfig();
+  private readonly OLLAMA_URL = this.usesOllama()
+    ? this.llmConfig.baseUrl
+    : getConfigManager().getOllamaConfig().baseUrl;
   private readonly HEALTH_CHECK_ENDPOINT = `${this.OLLAMA_URL}/api/tags`;
   private readonly HEALTH_CHECK_TIMEOUT = 5000;
   private readonly START_TIMEOUT = 30000;
   private readonly MAX_RETRIES = 10;
   private readonly RETRY_INTERVAL = 2000;
+  private readonly OLLAMA_MODEL: string;
+  private readonly PINNED_DIGEST = process.env.OLLAMA_MODEL_DIGEST;
+  private readonly AUTO_PULL = process.env.OLLAMA_AUTO_PULL === 'true';
+  private readonly PULL_TIMEOUT = 30 * 60 * 1000;
+  private readonly RUN_METADATA_FILE = process.env.RUN_METADATA_FILE || 'run-metadata.json';
 
+  constructor(options: OllamaServiceOptions = {}) {
+    this.OLLAMA_MODEL = options.model || this.llmConfig.model;
+  }
+
+  /**
+   * The model check only applies when generation talks to an Ollama server
+   */
+  usesOllama(): boolean {
+    return this.llmConfig.provider === 'ollama';
+  }
+
+  /**
+   * @throws ModelVerificationError if the model is missing or does not match the pinned digest
+   */
   async onPrepare() {
+    if (!this.usesOllama()) {
+      console.log(`\n🤖 Ollama Service: skipped (LLM_PROVIDER=${this.llmConfig.provider})`);
+      return;
+    }
+
     console.log('\n🤖 Ollama Service: Preparing...');
-    await this.ensureOllamaRunning();
+    const isRunning = await this.ensureOllamaRunning();
+
+    if (isRunning) {
+      await this.prepareModel();
+    } else if (this.PINNED_DIGEST) {
+      throw new ModelVerificationError(
+        `Cannot verify pinned model ${this.OLLAMA_MODEL}@${this.PINNED_DIGEST}: Ollama is not running at ${this.OLLAMA_URL}`,
+        { model: this.OLLAMA_MODEL, digest: this.PINNED_DIGEST, ollamaUrl: this.OLLAMA_URL }
+      );
+    }
   }
 
   async onComplete() {
@@ -39,13 +114,148 @@ export class OllamaService {
     }
   }
 
+  /**
+   * Verifies the configured model and writes its digest to the run metadata file
+   *
+   * @returns Metadata describing the model used for this run
+   * @throws ModelVerificationError if the model is missing or does not match the pinned digest
+   */
+  async prepareModel(): Promise<RunMetadata> {
+    const model = await this.verifyModel();
+    const metadata: RunMetadata = {
+      model: model.name,
+      digest: model.digest,
+      ollamaUrl: this.OLLAMA_URL,
+      recordedAt: new Date().toISOString(),
+    };
+
+    this.recordRunMetadata(metadata);
+    return metadata;
+  }
+
+  /**
+   * Lists the models installed on the Ollama server
+   */
+  async listModels(): Promise<OllamaModelInfo[]> {
+    let response;
+    try {
+      response = await fetch(this.HEALTH_CHECK_ENDPOINT);
+    } catch (error) {
+      throw new ModelVerificationError(
+        `Cannot list models: Ollama is not reachable at ${this.OLLAMA_URL} (${error instanceof Error ? error.message : error})`,
+        { ollamaUrl: this.OLLAMA_URL }
+      );
+    }
+
+    if (!response.ok) {
+      throw new ModelVerificationError(
+        `Failed to list Ollama models: ${response.status} ${response.statusText}`,
+        { ollamaUrl: this.OLLAMA_URL, status: response.status }
+      );
+    }
+
+    const data = (await response.json()) as {
+      models?: Array<{ name: string; digest?: string; size?: number; modified_at?: string }>;
+    };
+    return (data.models || []).map((model) => ({
+      name: model.name,
+      digest: model.digest || '',
+      size: model.size || 0,
+      modifiedAt: model.modified_at || '',
+    }));
+  }
+
+  /**
+   * Checks that OLLAMA_MODEL is installed and, when OLLAMA_MODEL_DIGEST is set, that its
+   * digest matches (a short prefix such as the ID shown by `ollama list` is enough).
+   * With OLLAMA_AUTO_PULL=true a missing model is pulled first.
+   *
+   * @throws ModelVerificationError if the model is missing or the digest differs
+   */
+  async verifyModel(): Promise<OllamaModelInfo> {
+    const wanted = normalizeModelName(this.OLLAMA_MODEL);
+    const findModel = async () =>
+      (await this.listModels()).find((model) => normalizeModelName(model.name) === wanted);
+
+    let model = await findModel();
+    if (!model && this.AUTO_PULL) {
+      await this.pullModel(this.OLLAMA_MODEL);
+      model = await findModel();
+    }
+
+    if (!model) {
+      const installed = (await this.listModels()).map((m) => m.name);
+      throw new ModelVerificationError(
+        `Model "${this.OLLAMA_MODEL}" is not installed on ${this.OLLAMA_URL}. ` +
+          `Run "ollama pull ${this.OLLAMA_MODEL}" or set OLLAMA_AUTO_PULL=true. ` +
+          `Installed: ${installed.join(', ') || 'none'}`,
+        { model: this.OLLAMA_MODEL, installed }
+      );
+    }
+
+    if (this.PINNED_DIGEST) {
+      const pinned = normalizeDigest(this.PINNED_DIGEST);
+      if (!pinned || !normalizeDigest(model.digest).startsWith(pinned)) {
+        throw new ModelVerificationError(
+          `Model "${model.name}" has digest ${model.digest || 'unknown'}, expected ${this.PINNED_DIGEST}. ` +
+            `Pull the pinned version or update OLLAMA_MODEL_DIGEST.`,
+          { model: model.name, digest: model.digest, expected: this.PINNED_DIGEST }
+        );
+      }
+    }
+
+    console.log(
+      `✅ Model ${model.name} verified (digest ${model.digest.slice(0, 12) || 'unknown'})`
+    );
+    return model;
+  }
+
+  private async pullModel(model: string): Promise<void> {
+    console.log(`📥 Pulling model ${model}...`);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.PULL_TIMEOUT);
+
+    try {
+      const response = await fetch(`${this.OLLAMA_URL}/api/pull`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, stream: false }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new ModelVerificationError(
+          `Failed to pull model "${model}": ${response.status} ${response.statusText}`,
+          { model, status: response.status }
+        );
+      }
+      console.log(`✅ Model ${model} pulled`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private recordRunMetadata(metadata: RunMetadata): void {
+    const metadataPath = path.resolve(this.RUN_METADATA_FILE);
+    try {
+      fs.mkdirSync(path.dirname(metadataPath), { recursive: true });
+      fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2) + '\n', 'utf-8');
+      console.log(`📝 Run metadata written to ${metadataPath}`);
+    } catch (error) {
+      console.warn(
+        '⚠️ Failed to write run metadata:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
   private async isOllamaHealthy(): Promise<boolean> {
     try {
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), this.HEALTH_CHECK_TIMEOUT);
 
       const response = await fetch(this.HEALTH_CHECK_ENDPOINT, {
-        signal: controller.signal as any,
+        signal: controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -159,14 +369,14 @@ export class OllamaService {
     return false;
   }
 
-  private async ensureOllamaRunning(): Promise<void> {
+  private async ensureOllamaRunning(): Promise<boolean> {
     console.log(`🔍 Checking Ollama service at ${this.OLLAMA_URL}...`);
 
     const isHealthy = await this.isOllamaHealthy();
 
     if (isHealthy) {
       console.log('✅ Ollama service is already running');
-      return;
+      return true;
     }
 
     console.warn('⚠️  Ollama service is not responding. Attempting to start...');
@@ -186,6 +396,7 @@ export class OllamaService {
       console.warn('⚠️    https://ollama.ai');
       console.warn('⚠️  ═══════════════════════════════════════════════════════════════\n');
     }
+    return startSuccess;
   }
 }
 
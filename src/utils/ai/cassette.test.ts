@@ -0,0 +1,68 @@
+/**
+ * CassetteProvider Tests
+ * Providers recording the same cassette must not drop each other's entries
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CassetteProvider } from './cassette';
+import { LlmProvider } from './llmProvider';
+
+const echoProvider: LlmProvider = {
+  type: 'ollama',
+  baseUrl: 'http://localhost:11434',
+  model: 'llama3',
+  generate: async (prompt) => `response to ${prompt}`,
+  checkHealth: async () => true,
+};
+
+describe('CassetteProvider', () => {
+  let workDir: string;
+  let cassettePath: string;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+    cassettePath = path.join(workDir, 'llm-cassette.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('should keep entries of every provider recording the same cassette', async () => {
+    const first = new CassetteProvider(echoProvider, 'record', cassettePath);
+    const second = new CassetteProvider(echoProvider, 'record', cassettePath);
+    const prompts = Array.from({ length: 10 }, (_, i) => `prompt ${i}`);
+
+    await Promise.all(prompts.map((prompt, i) => (i % 2 ? first : second).generate(prompt, {})));
+
+    const replay = new CassetteProvider(echoProvider, 'replay', cassettePath);
+    for (const prompt of prompts) {
+      await expect(replay.generate(prompt, {})).resolves.toBe(`response to ${prompt}`);
+    }
+    expect(fs.readdirSync(workDir)).toEqual(['llm-cassette.json']);
+  });
+
+  test('should keep entries written after the provider loaded the cassette', async () => {
+    const early = new CassetteProvider(echoProvider, 'record', cassettePath);
+    await new CassetteProvider(echoProvider, 'record', cassettePath).generate('later', {});
+    await early.generate('early', {});
+
+    const replay = new CassetteProvider(echoProvider, 'replay', cassettePath);
+    await expect(replay.generate('later', {})).resolves.toBe('response to later');
+    await expect(replay.generate('early', {})).resolves.toBe('response to early');
+  });
+
+  test('should take over a lock left behind by a crashed process', async () => {
+    const lockPath = `${cassettePath}.lock`;
+    fs.writeFileSync(lockPath, '999999');
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, past, past);
+
+    await new CassetteProvider(echoProvider, 'record', cassettePath).generate('prompt', {});
+
+    expect(fs.existsSync(lockPath)).toBe(false);
+    expect(fs.existsSync(cassettePath)).toBe(true);
+  });
+});
@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { CassetteMissError } from '../errors';
+import { LlmGenerateOptions, LlmProvider } from './llmProvider';
+
+/**
+ * LLM cassettes
+ *
+ * In record mode every prompt/response pair is written to a JSON cassette; in replay
+ * mode responses are served from that file without contacting any inference server,
+ * which makes buildScenario/buildStepDefinitions output reproducible. Several clients and
+ * WDIO workers may record the same cassette: each write merges into the file on disk
+ * under a lock file instead of replacing it.
+ */
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export const CASSETTE_MODES: CassetteMode[] = ['off', 'record', 'replay'];
+
+export const DEFAULT_CASSETTE_PATH = 'cassettes/llm-cassette.json';
+
+export interface CassetteEntry {
+  model: string;
+  promptHash: string;
+  prompt: string;
+  response: string;
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: number;
+  entries: Record<string, CassetteEntry>;
+}
+
+const CASSETTE_VERSION = 1;
+
+/** A lock is held for one read and write; older lock files were left by a crashed process */
+const STALE_LOCK_MS = 10000;
+const LOCK_POLL_INTERVAL_MS = 20;
+
+export function isCassetteMode(value: string): value is CassetteMode {
+  return (CASSETTE_MODES as string[]).includes(value);
+}
+
+export function hashPrompt(prompt: string): string {
+  return crypto.createHash('sha256').update(prompt).digest('hex');
+}
+
+function cassetteKey(model: string, promptHash: string): string {
+  return `${model}:${promptHash}`;
+}
+
+/**
+ * Provider decorator that records to or replays from a cassette file
+ */
+export class CassetteProvider implements LlmProvider {
+  readonly type: LlmProvider['type'];
+  readonly baseUrl: string;
+  readonly model: string;
+  private readonly cassettePath: string;
+  private entries: Record<string, CassetteEntry>;
+
+  constructor(
+    private readonly inner: LlmProvider,
+    private readonly mode: Exclude<CassetteMode, 'off'>,
+    cassettePath: string = DEFAULT_CASSETTE_PATH
+  ) {
+    this.type = inner.type;
+    this.baseUrl = inner.baseUrl;
+    this.model = inner.model;
+    this.cassettePath = path.resolve(cassettePath);
+    this.entries = this.load();
+  }
+
+  getMode(): Exclude<CassetteMode, 'off'> {
+    return this.mode;
+  }
+
+  getCassettePath(): string {
+    return this.cassettePath;
+  }
+
+  async generate(prompt: string, options: LlmGenerateOptions): Promise<string> {
+    const promptHash = hashPrompt(prompt);
+    const key = cassetteKey(this.model, promptHash);
+
+    if (this.mode === 'replay') {
+      const entry = this.entries[key];
+      if (!entry) {
+        throw new CassetteMissError(
+          `No cassette entry for model "${this.model}" and prompt hash ${promptHash} in ${this.cassettePath}. Re-record the cassette with LLM_CASSETTE_MODE=record`,
+          {
+            model: this.model,
+            promptHash,
+            cassettePath: this.cassettePath,
+            promptPreview: prompt.slice(0, 200),
+          }
+        );
+      }
+      return entry.response;
+    }
+
+    const response = await this.inner.generate(prompt, options);
+    this.entries[key] = {
+      model: this.model,
+      promptHash,
+      prompt,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    await this.save();
+    return response;
+  }
+
+  async checkHealth(): Promise<boolean> {
+    if (this.mode === 'replay') {
+      return true;
+    }
+    return this.inner.checkHealth();
+  }
+
+  private load(): Record<string, CassetteEntry> {
+    if (!fs.existsSync(this.cassettePath)) {
+      if (this.mode === 'replay') {
+        throw new CassetteMissError(`Cassette file not found: ${this.cassettePath}`, {
+          cassettePath: this.cassettePath,
+        });
+      }
+      return {};
+    }
+
+    return this.readEntries();
+  }
+
+  private readEntries(): Record<string, CassetteEntry> {
+    if (!fs.existsSync(this.cassettePath)) {
+      return {};
+    }
+    const data = JSON.parse(fs.readFileSync(this.cassettePath, 'utf-8')) as CassetteFile;
+    return data.entries || {};
+  }
+
+  /**
+   * Merges this provider's entries into the cassette as it is on disk now, so entries other
+   * providers recorded meanwhile are kept
+   */
+  private async save(): Promise<void> {
+    const dir = path.dirname(this.cassettePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const release = await this.lock();
+    try {
+      const merged = { ...this.readEntries(), ...this.entries };
+
+      // Sorted keys keep cassette diffs stable between recordings
+      const entries: Record<string, CassetteEntry> = {};
+      for (const key of Object.keys(merged).sort()) {
+        entries[key] = merged[key];
+      }
+      this.entries = entries;
+
+      // Written next to the cassette and renamed, so readers never see a partial file
+      const data: CassetteFile = { version: CASSETTE_VERSION, entries };
+      const tempPath = `${this.cassettePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+      fs.renameSync(tempPath, this.cassettePath);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Waits for the cassette's lock file (created with the exclusive "wx" flag)
+   *
+   * @returns Function that releases the lock
+   */
+  private async lock(): Promise<() => void> {
+    const lockPath = `${this.cassettePath}.lock`;
+
+    while (true) {
+      try {
+        fs.writeFileSync(lockPath, String(process.pid), { flag: 'wx' });
+        return () => fs.rmSync(lockPath, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) {
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        // Released between the two calls
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_INTERVAL_MS));
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * ExampleLibrary Tests
+ * Golden scenarios are indexed by their scenario type, whatever order their tags are in
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExampleLibrary } from './exampleLibrary';
+
+const FEATURE = `Feature: Login
+
+  @smoke @negative @golden
+  Scenario: Login fails with a wrong password
+    Given I am on the login page
+    When I enter "wrong" as password
+    Then I should see "Your password is invalid!"
+
+  @smoke @golden
+  Scenario: Open the login page
+    Given I navigate to the login page
+`;
+
+describe('ExampleLibrary', () => {
+  let workDir: string;
+  let library: ExampleLibrary;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'golden-examples-'));
+    const featurePath = path.join(workDir, 'login.feature');
+    fs.writeFileSync(featurePath, FEATURE);
+    library = new ExampleLibrary(path.join(workDir, 'golden-examples.json'));
+    library.importFromFeature(featurePath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('should take the intent from the first scenario type tag', () => {
+    expect(library.getAll().map((example) => [example.title, example.intent])).toEqual([
+      ['Login fails with a wrong password', 'negative'],
+      ['Open the login page', 'navigate'],
+    ]);
+  });
+
+  test('should inject a golden scenario whose scenario type is not its first tag', () => {
+    const [example] = library.find('scenario', { intent: 'negative', text: 'Test login' });
+
+    expect(example?.title).toBe('Login fails with a wrong password');
+  });
+});
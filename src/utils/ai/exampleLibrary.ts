@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ValidationError } from '../errors';
+import {
+  formatDiagnostic,
+  formatGherkinChild,
+  getScenarios,
+  parseGherkin,
+} from '../test-gen/gherkinAst';
+import { promptTemplateManager } from './promptTemplates';
+
+/**
+ * Golden example library
+ *
+ * Scenarios tagged @golden in a feature file and step definitions whose doc comment
+ * contains @golden can be imported into golden-examples.json. The closest matches are
+ * then injected as few-shot examples into scenario and step generation prompts.
+ */
+
+export type GoldenExampleKind = 'scenario' | 'step';
+
+export type StepIntent = 'navigate' | 'input' | 'click' | 'select' | 'assert' | 'wait' | 'other';
+
+export interface GoldenExample {
+  id: string;
+  kind: GoldenExampleKind;
+  /** Scenario type (e.g. negative) for scenarios, StepIntent for steps */
+  intent: string;
+  /** PageAnalysis.mainFunctionality of the page the example was generated for */
+  pageType?: string;
+  title: string;
+  content: string;
+  tags: string[];
+  source: string;
+  addedAt: string;
+}
+
+export interface ExampleQuery {
+  intent: string;
+  pageType?: string;
+  text?: string;
+}
+
+export const DEFAULT_GOLDEN_EXAMPLES_FILE = 'golden-examples.json';
+export const GOLDEN_TAG = '@golden';
+export const PAGE_TYPE_COMMENT = '# page-type:';
+
+const MAX_EXAMPLES_PER_PROMPT = 2;
+
+const STEP_INTENT_KEYWORDS: Array<[StepIntent, string[]]> = [
+  ['navigate', ['navigate', 'go to', 'open', 'visit', 'am on', 'is on', 'redirected']],
+  ['wait', ['wait']],
+  ['assert', ['should', 'see', 'verify', 'displayed', 'visible', 'contain', 'expect']],
+  ['select', ['select', 'choose', 'check', 'uncheck', 'toggle']],
+  ['input', ['enter', 'type', 'fill', 'input', 'clear']],
+  ['click', ['click', 'press', 'submit', 'tap']],
+];
+
+/**
+ * Buckets a step into a coarse intent so examples are matched by what the step does
+ */
+export function classifyStepIntent(stepText: string): StepIntent {
+  const lower = stepText.toLowerCase();
+  for (const [intent, keywords] of STEP_INTENT_KEYWORDS) {
+    if (keywords.some((keyword) => lower.includes(keyword))) {
+      return intent;
+    }
+  }
+  return 'other';
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2)
+  );
+}
+
+export class ExampleLibrary {
+  private examples: GoldenExample[] | null = null;
+
+  constructor(
+    private readonly filePath: string = process.env.GOLDEN_EXAMPLES_FILE ||
+      DEFAULT_GOLDEN_EXAMPLES_FILE
+  ) {}
+
+  getFilePath(): string {
+    return path.resolve(this.filePath);
+  }
+
+  getAll(): GoldenExample[] {
+    if (!this.examples) {
+      const filePath = this.getFilePath();
+      this.examples = fs.existsSync(filePath)
+        ? (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as GoldenExample[])
+        : [];
+    }
+    return this.examples;
+  }
+
+  /**
+   * Adds examples to the library, replacing entries with identical content
+   *
+   * @returns Number of examples that were not already in the library
+   */
+  add(examples: Array<Omit<GoldenExample, 'id' | 'addedAt'>>): number {
+    const all = this.getAll();
+    let added = 0;
+
+    for (const example of examples) {
+      const id = crypto
+        .createHash('sha1')
+        .update(`${example.kind}:${example.content.trim()}`)
+        .digest('hex')
+        .slice(0, 12);
+      const existing = all.findIndex((e) => e.id === id);
+      const entry: GoldenExample = { ...example, id, addedAt: new Date().toISOString() };
+
+      if (existing >= 0) {
+        all[existing] = entry;
+      } else {
+        all.push(entry);
+        added++;
+      }
+    }
+
+    fs.writeFileSync(this.getFilePath(), JSON.stringify(all, null, 2) + '\n', 'utf-8');
+    return added;
+  }
+
+  /**
+   * Finds the examples closest to a query: same intent first, then same page type,
+   * then word overlap with the query text
+   */
+  find(
+    kind: GoldenExampleKind,
+    query: ExampleQuery,
+    limit = MAX_EXAMPLES_PER_PROMPT
+  ): GoldenExample[] {
+    const queryWords = tokenize(query.text || '');
+
+    return this.getAll()
+      .filter((example) => example.kind === kind)
+      .map((example) => {
+        let score = 0;
+        if (example.intent === query.intent) score += 10;
+        if (example.tags.includes(`@${query.intent}`)) score += 3;
+        if (query.pageType && example.pageType === query.pageType) score += 5;
+        for (const word of tokenize(example.title)) {
+          if (queryWords.has(word)) score += 1;
+        }
+        return { example, score };
+      })
+      .filter(({ score }) => score >= 10)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ example }) => example);
+  }
+
+  /**
+   * Renders examples as a prompt section; returns an empty string when there are none
+   */
+  formatForPrompt(examples: GoldenExample[]): string {
+    if (examples.length === 0) {
+      return '';
+    }
+
+    const label = examples[0].kind === 'scenario' ? 'scenarios' : 'step implementations';
+    const blocks = examples
+      .map((example, index) => `Example ${index + 1}:\n${example.content.trim()}`)
+      .join('\n\n');
+
+    return `Accepted ${label} from this project (follow their structure, wording and style):
+
+${blocks}
+
+`;
+  }
+
+  /**
+   * Imports every scenario tagged @golden from a feature file
+   */
+  importFromFeature(featurePath: string): number {
+    const { document, diagnostics } = parseGherkin(readSource(featurePath));
+    if (!document?.feature) {
+      throw new ValidationError(
+        `Cannot import golden scenarios from ${featurePath}: ${
+          diagnostics.map(formatDiagnostic).join('; ') || 'no "Feature:" block'
+        }`,
+        { featurePath, diagnostics }
+      );
+    }
+
+    const pageTypeComment = document.comments.find((comment) =>
+      comment.text.trim().startsWith(PAGE_TYPE_COMMENT)
+    );
+    const pageType =
+      pageTypeComment?.text.trim().slice(PAGE_TYPE_COMMENT.length).trim() || undefined;
+
+    const examples: Array<Omit<GoldenExample, 'id' | 'addedAt'>> = [];
+    for (const scenario of getScenarios(document.feature)) {
+      if (!scenario.tags.some((tag) => tag.name === GOLDEN_TAG)) continue;
+
+      const remainingTags = scenario.tags.filter((tag) => tag.name !== GOLDEN_TAG);
+      const tags = remainingTags.map((tag) => tag.name);
+      // Tags such as @smoke come first as often as not; only a scenario type is an intent
+      const scenarioType = tags
+        .map((tag) => tag.slice(1))
+        .find((type) => promptTemplateManager.hasTemplate(type));
+      examples.push({
+        kind: 'scenario',
+        intent: scenarioType || classifyStepIntent(scenario.name),
+        pageType,
+        title: scenario.name,
+        content: formatGherkinChild({ ...scenario, tags: remainingTags }),
+        tags,
+        source: featurePath,
+      });
+    }
+
+    return this.addImported(examples, featurePath);
+  }
+
+  /**
+   * Imports every step definition whose doc comment contains @golden
+   */
+  importFromStepDefinitions(stepsPath: string): number {
+    const content = readSource(stepsPath);
+    const stepPattern =
+      /\/\*\*\s*\n\s*\*\s*Implements:\s*"((?:[^"\\]|\\.)*)"([^\n]*)\n((?:\s*\*[^/\n][^\n]*\n)*?)\s*\*\/\s*\n((?:Given|When|Then)\(\/[\s\S]*?\n\}\);)/g;
+
+    const examples: Array<Omit<GoldenExample, 'id' | 'addedAt'>> = [];
+    for (const match of content.matchAll(stepPattern)) {
+      const [, stepText, restOfLine, commentLines, definition] = match;
+      if (!`${restOfLine}${commentLines}`.includes(GOLDEN_TAG)) continue;
+
+      const title = stepText.replace(/\\"/g, '"');
+      examples.push({
+        kind: 'step',
+        intent: classifyStepIntent(title),
+        title,
+        content: definition,
+        tags: [],
+        source: stepsPath,
+      });
+    }
+
+    return this.addImported(examples, stepsPath);
+  }
+
+  private addImported(
+    examples: Array<Omit<GoldenExample, 'id' | 'addedAt'>>,
+    source: string
+  ): number {
+    if (examples.length === 0) {
+      throw new ValidationError(`No ${GOLDEN_TAG} examples found in ${source}`, { source });
+    }
+    return this.add(examples);
+  }
+}
+
+function readSource(filePath: string): string {
+  if (!fs.existsSync(filePath)) {
+    throw new ValidationError(`File not found: ${filePath}`, { filePath });
+  }
+  return fs.readFileSync(filePath, 'utf-8');
+}
+
+export const exampleLibrary = new ExampleLibrary();
@@ -0,0 +1,86 @@
+/**
+ * Minimal JSON Schema support for structured LLM output
+ *
+ * Only the keywords our prompts actually use are understood; the same schema object is
+ * sent to the provider (Ollama `format`, OpenAI `response_format`) and used to validate
+ * the parsed response.
+ */
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonSchema['type']): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+/**
+ * Validates a parsed JSON value against a schema
+ *
+ * @returns List of human-readable violations, empty when the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (!matchesType(value, schema.type)) {
+    return [`${path} must be ${schema.type}, got ${typeOf(value)}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (schema.type === 'string' && schema.minLength !== undefined) {
+    if ((value as string).trim().length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+  }
+
+  if (schema.type === 'array') {
+    const items = value as unknown[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      errors.push(`${path} must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+      errors.push(`${path} must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      items.forEach((item, index) => {
+        errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (schema.type === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+      if (obj[key] !== undefined) {
+        errors.push(...validateJsonSchema(obj[key], propSchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,47 @@
+/**
+ * LLM provider abstraction
+ *
+ * OllamaClient owns retries, logging and prompt helpers; a provider only knows how to
+ * send a single completion request to one kind of inference server.
+ */
+
+import { JsonSchema } from './jsonSchema';
+
+export type LlmProviderType = 'ollama' | 'openai-compatible';
+
+export const LLM_PROVIDER_TYPES: LlmProviderType[] = ['ollama', 'openai-compatible'];
+
+export interface LlmGenerateOptions {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  repeat_penalty?: number;
+  /** Constrain output to JSON ('json') or to a JSON schema, when the server supports it */
+  format?: 'json' | JsonSchema;
+}
+
+export interface LlmProviderConfig {
+  baseUrl: string;
+  model: string;
+  timeout: number;
+  apiKey?: string;
+}
+
+export interface LlmProvider {
+  readonly type: LlmProviderType;
+  readonly baseUrl: string;
+  readonly model: string;
+
+  /**
+   * Sends a single, non-streaming completion request and returns the generated text.
+   * Implementations throw an Error whose message contains the HTTP status (e.g. "500")
+   * or "timeout" so OllamaClient can decide whether to retry.
+   */
+  generate(prompt: string, options: LlmGenerateOptions): Promise<string>;
+
+  checkHealth(): Promise<boolean>;
+}
+
+export function isLlmProviderType(value: string): value is LlmProviderType {
+  return (LLM_PROVIDER_TYPES as string[]).includes(value);
+}
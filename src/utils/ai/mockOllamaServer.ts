@@ -0,0 +1,250 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as fs from 'fs';
+import { AddressInfo } from 'net';
+
+/**
+ * Mock Ollama server for offline tests and CI
+ *
+ * Implements /api/generate and /api/tags (model digests are the sha256 of the name).
+ * Responses are scripted with rules that match on the prompt and can add latency, return
+ * HTTP errors (500, 429, ...) or hang until the client times out.
+ *
+ * Standalone usage:
+ *   npx ts-node src/utils/ai/mockOllamaServer.ts --port 11434 --script mock-ollama.json
+ */
+
+export interface MockRule {
+  /** Substring or regular expression (as /pattern/flags string in JSON scripts) the prompt must match */
+  match?: string | RegExp;
+  /** Text returned in the `response` field */
+  response?: string;
+  /** HTTP status to fail with instead of responding (e.g. 500, 429, 503) */
+  status?: number;
+  /** Never respond, so the client hits its own timeout */
+  hang?: boolean;
+  latencyMs?: number;
+  /** How many requests this rule serves before it is skipped; unlimited when omitted */
+  times?: number;
+}
+
+export interface MockOllamaScript {
+  models?: string[];
+  defaultResponse?: string;
+  healthy?: boolean;
+  rules?: MockRule[];
+}
+
+export interface MockOllamaRequest {
+  path: string;
+  model?: string;
+  prompt?: string;
+  format?: unknown;
+  options?: Record<string, unknown>;
+  timestamp: number;
+}
+
+interface ScriptedRule extends MockRule {
+  served: number;
+}
+
+const DEFAULT_RESPONSE = `@happy-path @positive
+Scenario: Mock scenario
+  Given I am on the page
+  When I click the "submit" button
+  Then I should see the result`;
+
+export class MockOllamaServer {
+  private server: http.Server | null = null;
+  private rules: ScriptedRule[] = [];
+  private requests: MockOllamaRequest[] = [];
+  private pendingResponses = new Set<http.ServerResponse>();
+  private models: string[];
+  private defaultResponse: string;
+  private healthy: boolean;
+
+  constructor(script: MockOllamaScript = {}) {
+    this.models = script.models || ['llama3'];
+    this.defaultResponse = script.defaultResponse ?? DEFAULT_RESPONSE;
+    this.healthy = script.healthy ?? true;
+    (script.rules || []).forEach((rule) => this.addRule(rule));
+  }
+
+  /**
+   * Loads a JSON script; string matches of the form "/pattern/flags" become RegExps
+   */
+  static fromScriptFile(scriptPath: string): MockOllamaServer {
+    const script = JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) as MockOllamaScript;
+    script.rules = (script.rules || []).map((rule) => {
+      const regex = typeof rule.match === 'string' && rule.match.match(/^\/(.+)\/([a-z]*)$/);
+      return regex ? { ...rule, match: new RegExp(regex[1], regex[2]) } : rule;
+    });
+    return new MockOllamaServer(script);
+  }
+
+  addRule(rule: MockRule): this {
+    this.rules.push({ ...rule, served: 0 });
+    return this;
+  }
+
+  clearRules(): this {
+    this.rules = [];
+    return this;
+  }
+
+  setHealthy(healthy: boolean): this {
+    this.healthy = healthy;
+    return this;
+  }
+
+  getRequests(path?: string): MockOllamaRequest[] {
+    return path ? this.requests.filter((r) => r.path === path) : [...this.requests];
+  }
+
+  /**
+   * Starts listening; port 0 picks a free port
+   *
+   * @returns Base URL to use as OLLAMA_BASE_URL
+   */
+  async start(port = 0): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    for (const res of this.pendingResponses) {
+      res.destroy();
+    }
+    this.pendingResponses.clear();
+
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const path = (req.url || '/').split('?')[0];
+
+      if (req.method === 'GET' && path === '/api/tags') {
+        this.requests.push({ path, timestamp: Date.now() });
+        if (!this.healthy) {
+          this.sendJson(res, 503, { error: 'service unavailable' });
+          return;
+        }
+        this.sendJson(res, 200, {
+          models: this.models.map((name) => ({
+            name,
+            model: name,
+            modified_at: new Date(0),
+            size: 0,
+            digest: crypto.createHash('sha256').update(name).digest('hex'),
+          })),
+        });
+        return;
+      }
+
+      if (req.method === 'POST' && path === '/api/generate') {
+        let body: Record<string, unknown> = {};
+        try {
+          body = JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+        } catch {
+          this.sendJson(res, 400, { error: 'invalid JSON body' });
+          return;
+        }
+        this.handleGenerate(body, res);
+        return;
+      }
+
+      this.sendJson(res, 404, { error: `no route for ${req.method} ${path}` });
+    });
+  }
+
+  private handleGenerate(body: Record<string, unknown>, res: http.ServerResponse): void {
+    const prompt = typeof body.prompt === 'string' ? body.prompt : '';
+    const model = typeof body.model === 'string' ? body.model : this.models[0];
+    this.requests.push({
+      path: '/api/generate',
+      model,
+      prompt,
+      format: body.format,
+      options: body.options as Record<string, unknown> | undefined,
+      timestamp: Date.now(),
+    });
+
+    const rule = this.rules.find(
+      (r) =>
+        (r.times === undefined || r.served < r.times) &&
+        (r.match === undefined ||
+          (r.match instanceof RegExp ? r.match.test(prompt) : prompt.includes(r.match)))
+    );
+    if (rule) rule.served++;
+
+    if (rule?.hang) {
+      this.pendingResponses.add(res);
+      res.on('close', () => this.pendingResponses.delete(res));
+      return;
+    }
+
+    const respond = () => {
+      if (rule?.status && rule.status >= 400) {
+        this.sendJson(res, rule.status, { error: `mock failure ${rule.status}` });
+        return;
+      }
+      this.sendJson(res, 200, {
+        model,
+        created_at: new Date().toISOString(),
+        response: rule?.response ?? this.defaultResponse,
+        done: true,
+      });
+    };
+
+    if (rule?.latencyMs) {
+      this.pendingResponses.add(res);
+      setTimeout(() => {
+        this.pendingResponses.delete(res);
+        if (!res.destroyed) respond();
+      }, rule.latencyMs);
+    } else {
+      respond();
+    }
+  }
+
+  private sendJson(res: http.ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const argValue = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const scriptPath = argValue('script');
+  const server = scriptPath ? MockOllamaServer.fromScriptFile(scriptPath) : new MockOllamaServer();
+
+  server
+    .start(parseInt(argValue('port') || '11434', 10))
+    .then((baseUrl) => {
+      console.log(`🧪 Mock Ollama server listening on ${baseUrl}`);
+      const shutdown = () => server.stop().then(() => process.exit(0));
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    })
+    .catch((error) => {
+      console.error('❌ Failed to start mock Ollama server:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,208 @@
+/**
+ * OllamaClient Tests
+ * Exercises retries, timeouts and health checks against the mock Ollama server
+ */
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { OllamaClient } from './ollamaClient';
+import { MockOllamaServer } from './mockOllamaServer';
+import { LlmResponseCache } from '../cache/llmResponseCache';
+import { JsonSchema } from './jsonSchema';
+
+describe('OllamaClient', () => {
+  let server: MockOllamaServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new MockOllamaServer({ defaultResponse: 'default answer' });
+    baseUrl = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const createClient = (timeout = 2000) =>
+    new OllamaClient({ baseUrl, model: 'llama3', timeout, maxRetries: 2, retryDelayMs: 10 });
+
+  test('should return the canned response for a matching prompt', async () => {
+    server.addRule({ match: 'login', response: 'login scenario' });
+
+    expect(await createClient().generateText('generate login tests')).toBe('login scenario');
+    expect(await createClient().generateText('something else')).toBe('default answer');
+  });
+
+  test('should retry on 500 errors and succeed', async () => {
+    server.addRule({ status: 500, times: 2 });
+
+    expect(await createClient().generateText('prompt')).toBe('default answer');
+    expect(server.getRequests('/api/generate')).toHaveLength(3);
+  });
+
+  test('should give up after max retries', async () => {
+    server.addRule({ status: 503 });
+
+    await expect(createClient().generateText('prompt')).rejects.toThrow('503');
+    expect(server.getRequests('/api/generate')).toHaveLength(3);
+  });
+
+  test('should not retry rate limit errors', async () => {
+    server.addRule({ status: 429 });
+
+    await expect(createClient().generateText('prompt')).rejects.toThrow('429');
+    expect(server.getRequests('/api/generate')).toHaveLength(1);
+  });
+
+  test('should time out when the server hangs', async () => {
+    server.addRule({ hang: true, times: 1 });
+
+    expect(await createClient(200).generateText('prompt')).toBe('default answer');
+    expect(server.getRequests('/api/generate')).toHaveLength(2);
+  });
+
+  test('should report health from /api/tags', async () => {
+    expect(await createClient().checkHealth()).toBe(true);
+
+    server.setHealthy(false);
+    expect(await createClient().checkHealth()).toBe(false);
+  });
+});
+
+describe('OllamaClient response cache', () => {
+  let server: MockOllamaServer;
+  let baseUrl: string;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    server = new MockOllamaServer({ defaultResponse: '{"ok":true}' });
+    baseUrl = await server.start();
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-'));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const createClient = (url = baseUrl) =>
+    new OllamaClient({
+      baseUrl: url,
+      model: 'llama3',
+      maxRetries: 0,
+      responseCache: new LlmResponseCache({ dir: cacheDir, ttlMs: 60000, maxSizeBytes: 1e6 }),
+    });
+  const generateCalls = () => server.getRequests('/api/generate').length;
+
+  test('should cache a deferred response only once the caller accepts it', async () => {
+    const client = createClient();
+    const options = { deferCache: true };
+
+    await client.generateText('prompt', options);
+    await client.generateText('prompt', options);
+    expect(generateCalls()).toBe(2);
+
+    client.cacheResponse('prompt', options, 'accepted');
+    expect(await client.generateText('prompt', options)).toBe('accepted');
+    expect(generateCalls()).toBe(2);
+  });
+
+  test('should not serve a response that failed schema validation again', async () => {
+    server.addRule({ response: 'not json', times: 1 });
+    const schema: JsonSchema = { type: 'object', properties: { ok: { type: 'boolean' } } };
+
+    await createClient().generateStructured('prompt', schema);
+    expect(generateCalls()).toBe(2);
+
+    await expect(createClient().generateStructured('prompt', schema)).resolves.toEqual({
+      ok: true,
+    });
+    expect(generateCalls()).toBe(3);
+    await createClient().generateStructured('prompt', schema);
+    expect(generateCalls()).toBe(3);
+  });
+
+  test('should not share entries between servers serving the same model', async () => {
+    const other = new MockOllamaServer({ defaultResponse: 'other server' });
+    const otherUrl = await other.start();
+
+    try {
+      expect(await createClient().generateText('prompt')).toBe('{"ok":true}');
+      expect(await createClient(otherUrl).generateText('prompt')).toBe('other server');
+    } finally {
+      await other.stop();
+    }
+  });
+});
+
+describe('generateTestArtifacts without a model', () => {
+  const LOGIN_PAGE = `<!DOCTYPE html>
+<html><head><title>Login</title></head><body>
+<form id="login">
+  <label for="username">Username</label><input id="username" name="username" type="text">
+  <label for="password">Password</label><input id="password" name="password" type="password">
+  <button id="submit" type="submit">Log in</button>
+</form>
+</body></html>`;
+
+  const originalCwd = process.cwd();
+  const originalEnv = { ...process.env };
+  let server: MockOllamaServer;
+  let page: http.Server;
+  let pageUrl: string;
+  let workDir: string;
+
+  beforeAll(async () => {
+    server = new MockOllamaServer({ healthy: false, rules: [{ status: 503 }] });
+    const baseUrl = await server.start();
+
+    page = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end(LOGIN_PAGE);
+    });
+    await new Promise<void>((resolve) => page.listen(0, '127.0.0.1', () => resolve()));
+    pageUrl = `http://127.0.0.1:${(page.address() as AddressInfo).port}/login`;
+
+    // Generated files, caches and logs go to a scratch directory
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'generate-fallback-'));
+    process.chdir(workDir);
+    Object.assign(process.env, {
+      LLM_BASE_URL: baseUrl,
+      OLLAMA_MAX_RETRIES: '0',
+      OLLAMA_RETRY_DELAY_MS: '1',
+      AI_CACHE: 'false',
+      AI_QUEUE: 'false',
+      PROMPT_TELEMETRY: 'false',
+    });
+  });
+
+  afterAll(async () => {
+    process.chdir(originalCwd);
+    process.env = originalEnv;
+    await server.stop();
+    await new Promise<void>((resolve) => page.close(() => resolve()));
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('should generate artifacts from basic templates when Ollama is unavailable', async () => {
+    jest.resetModules();
+    const { generateTestArtifacts } = require('../../cli') as typeof import('../../cli');
+
+    const { featureFilePath, pageObjectPath, stepDefinitionsPath } = await generateTestArtifacts(
+      pageUrl,
+      'Test login',
+      { testTimeout: 2000 }
+    );
+
+    expect(server.getRequests('/api/tags').length).toBeGreaterThan(0);
+    const feature = fs.readFileSync(featureFilePath, 'utf-8');
+    expect(feature).toContain('Scenario: Successful login with valid credentials');
+    expect(fs.readFileSync(pageObjectPath, 'utf-8')).toContain('#username');
+    const steps = fs.readFileSync(stepDefinitionsPath, 'utf-8');
+    expect(steps).toMatch(/Given\(/);
+    expect(steps).toContain('When(');
+  }, 60000);
+});
@@ -1,7 +1,16 @@
 // src/utils/ai/ollamaClient.ts
-import fetch, { RequestInit } from 'node-fetch';
-import { AbortError } from 'node-fetch';
+import * as path from 'path';
 import { logger } from '../logger';
+import { getConfigManager } from '../../config';
+import { AIGenerationError, CassetteMissError, ValidationError } from '../errors';
+import { LlmProvider } from './llmProvider';
+import { JsonSchema, validateJsonSchema } from './jsonSchema';
+import { condenseDOM } from '../dom/domCondenser';
+import { LlmResponseCache } from '../cache/llmResponseCache';
+import { CASSETTE_MODES, CassetteProvider, isCassetteMode } from './cassette';
+import { AiRequestPriority, AiRequestQueue } from './requestQueue';
+import { PromptTelemetry, UNTYPED_PROMPT, getPromptTelemetry } from './promptTelemetry';
+import { OllamaProvider, createLlmProvider } from './providers';
 
 export interface OllamaResponse {
   model: string;
@@ -17,6 +26,21 @@ export interface OllamaOptions {
   repeat_penalty?: number;
   retries?: number;
   retryDelayMs?: number;
+  format?: 'json' | JsonSchema;
+  /** Position in the cross-process request queue; healing goes ahead of bulk generation */
+  priority?: AiRequestPriority;
+  /** Telemetry label, e.g. "scenario:negative" or "healing-fix" */
+  promptType?: string;
+  /**
+   * Leave a fresh response out of the cache until the caller validates it and calls
+   * cacheResponse(), so a rejected response is not served again on the next attempt
+   */
+  deferCache?: boolean;
+}
+
+export interface StructuredOptions extends OllamaOptions {
+  /** Total attempts, including re-prompts that carry the validation errors back */
+  maxAttempts?: number;
 }
 
 export interface OllamaClientConfig {
@@ -26,19 +50,35 @@ export interface OllamaClientConfig {
   timeout?: number;
   maxRetries?: number;
   retryDelayMs?: number;
+  /**
+   * Transport used for completions. Defaults to a native Ollama provider built
+   * from baseUrl/model; createOllamaClient picks it from ConfigManager instead.
+   */
+  provider?: LlmProvider;
+  /** Persistent response cache; createOllamaClient enables it unless --no-ai-cache is set */
+  responseCache?: LlmResponseCache;
+  /** Limits concurrent requests across WDIO workers; createOllamaClient enables it unless AI_QUEUE=false */
+  requestQueue?: AiRequestQueue;
+  /** Per-call telemetry sink; createOllamaClient enables it unless PROMPT_TELEMETRY=false */
+  telemetry?: PromptTelemetry;
+}
+
+interface CallStats {
+  retries: number;
+  cached: boolean;
 }
 
 export class OllamaClient {
-  private ollamaClientBaseUrl: string;
-  private model: string;
+  private provider: LlmProvider;
+  private responseCache?: LlmResponseCache;
+  private requestQueue?: AiRequestQueue;
+  private telemetry?: PromptTelemetry;
   private defaultOptions: OllamaOptions;
   private timeout: number;
   private maxRetries: number;
   private retryDelayMs: number;
 
   constructor(config: OllamaClientConfig = {}) {
-    this.ollamaClientBaseUrl = config.baseUrl || 'http://localhost:11434';
-    this.model = config.model || 'llama3';
     this.defaultOptions = config.defaultOptions || {
       temperature: 0.3,
       max_tokens: 500,
@@ -48,16 +88,24 @@ export class OllamaClient {
     this.timeout = config.timeout || 120000;
     this.maxRetries = config.maxRetries ?? 3;
     this.retryDelayMs = config.retryDelayMs ?? 1000;
+    this.responseCache = config.responseCache;
+    this.requestQueue = config.requestQueue;
+    this.telemetry = config.telemetry;
+    this.provider =
+      config.provider ||
+      new OllamaProvider({
+        baseUrl: config.baseUrl || 'http://localhost:11434',
+        model: config.model || 'llama3',
+        timeout: this.timeout,
+      });
   }
 
-  private sanitizeDOM(dom: string, maxLength: number = 5000): string {
-    if (dom.length <= maxLength) {
-      return dom;
-    }
-    console.warn(
-      `DOM content truncated from ${dom.length} to ${maxLength} characters to prevent API overload`
-    );
-    return dom.slice(0, maxLength) + '\n<!-- ...truncated... -->';
+  getModel(): string {
+    return this.provider.model;
+  }
+
+  getProvider(): LlmProvider {
+    return this.provider;
   }
 
   private async sleep(ms: number): Promise<void> {
@@ -77,6 +125,91 @@ export class OllamaClient {
   }
 
   async generateText(prompt: string, options?: OllamaOptions): Promise<string> {
+    const startTime = Date.now();
+    const stats: CallStats = { retries: 0, cached: false };
+
+    try {
+      const text = await this.generateTextOrCached(prompt, options, stats);
+      this.recordCall(prompt, options, stats, startTime, text);
+      return text;
+    } catch (error) {
+      this.recordCall(prompt, options, stats, startTime, undefined, error);
+      throw error;
+    }
+  }
+
+  private recordCall(
+    prompt: string,
+    options: OllamaOptions | undefined,
+    stats: CallStats,
+    startTime: number,
+    response?: string,
+    error?: unknown
+  ): void {
+    this.telemetry?.recordCall({
+      promptType: options?.promptType || UNTYPED_PROMPT,
+      model: this.provider.model,
+      prompt,
+      response,
+      latencyMs: Date.now() - startTime,
+      retries: stats.retries,
+      cached: stats.cached,
+      outcome: error === undefined ? 'success' : 'error',
+      error:
+        error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  private async generateTextOrCached(
+    prompt: string,
+    options: OllamaOptions | undefined,
+    stats: CallStats
+  ): Promise<string> {
+    if (!this.responseCache) {
+      return this.generateTextWithRetries(prompt, options, stats);
+    }
+
+    const cacheKey = this.buildCacheKey(prompt, options);
+    const cached = this.responseCache.get(cacheKey);
+    if (cached !== null) {
+      logger.debug(`LLM response served from cache (${cacheKey.slice(0, 12)})`);
+      stats.cached = true;
+      return cached;
+    }
+
+    const text = await this.generateTextWithRetries(prompt, options, stats);
+    if (!options?.deferCache) {
+      this.responseCache.set(cacheKey, text);
+    }
+    return text;
+  }
+
+  /**
+   * Caches a response requested with deferCache once the caller has accepted it
+   */
+  cacheResponse(prompt: string, options: OllamaOptions | undefined, response: string): void {
+    this.responseCache?.set(this.buildCacheKey(prompt, options), response);
+  }
+
+  private buildCacheKey(prompt: string, options: OllamaOptions | undefined): string {
+    const { temperature, max_tokens, top_p, repeat_penalty, format } = {
+      ...this.defaultOptions,
+      ...options,
+    };
+    return LlmResponseCache.buildKey({
+      provider: this.provider.type,
+      baseUrl: this.provider.baseUrl,
+      model: this.provider.model,
+      prompt,
+      options: { temperature, max_tokens, top_p, repeat_penalty, format },
+    });
+  }
+
+  private async generateTextWithRetries(
+    prompt: string,
+    options: OllamaOptions | undefined,
+    stats: CallStats
+  ): Promise<string> {
     const maxRetries = options?.retries ?? this.maxRetries;
     const retryDelayMs = options?.retryDelayMs ?? this.retryDelayMs;
     let lastError: Error | null = null;
@@ -88,6 +221,7 @@ export class OllamaClient {
         lastError = error as Error;
         const isRetryable =
           error instanceof Error &&
+          !(error instanceof CassetteMissError) &&
           (error.message.includes('500') ||
             error.message.includes('timeout') ||
             error.message.includes('ECONNREFUSED') ||
@@ -104,6 +238,7 @@ export class OllamaClient {
         );
         console.log(`⏳ Retrying in ${delayMs}ms...`);
         await this.sleep(delayMs);
+        stats.retries++;
       }
     }
 
@@ -111,67 +246,109 @@ export class OllamaClient {
   }
 
   private async attemptGenerateText(prompt: string, options?: OllamaOptions): Promise<string> {
-    const url = `${this.ollamaClientBaseUrl}/api/generate`;
     const mergedOptions = { ...this.defaultOptions, ...options };
 
-    const bodyPayload = {
-      model: this.model,
-      prompt,
-      stream: false,
-      options: {
+    // Wait for a queue slot before starting the clock so queueing doesn't count as API time
+    const release = await this.requestQueue?.acquire(mergedOptions.priority || 'interactive');
+    const startTime = Date.now();
+    let text: string;
+
+    try {
+      logger.logOllamaApiCall(prompt, this.provider.model, mergedOptions.temperature!);
+      text = await this.provider.generate(prompt, {
         temperature: mergedOptions.temperature,
-        num_predict: mergedOptions.max_tokens,
+        max_tokens: mergedOptions.max_tokens,
         top_p: mergedOptions.top_p,
         repeat_penalty: mergedOptions.repeat_penalty,
-      },
-    };
+        format: mergedOptions.format,
+      });
+    } finally {
+      release?.();
+    }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-    const startTime = Date.now();
+    const duration = Date.now() - startTime;
+    logger.recordMetric('ollama_api_call', duration);
+    logger.logOllamaResponse(text, this.provider.model, duration);
+    return text;
+  }
 
-    try {
-      logger.logOllamaApiCall(prompt, this.model, mergedOptions.temperature!);
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(bodyPayload),
-        signal: controller.signal,
-      } as RequestInit);
-
-      clearTimeout(timeoutId);
-      const duration = Date.now() - startTime;
-      logger.recordMetric('ollama_api_call', duration);
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        const errorMsg = `Ollama API error: ${response.status} ${response.statusText}`;
-        logger.error(errorMsg, new Error(errorBody));
-        throw new Error(errorMsg);
+  /**
+   * Generates a JSON response constrained to the given schema and returns it parsed.
+   * Invalid JSON or schema violations are sent back to the model so it can correct itself.
+   *
+   * @throws AIGenerationError when no valid response is produced within maxAttempts
+   */
+  async generateStructured<T>(
+    prompt: string,
+    schema: JsonSchema,
+    options: StructuredOptions = {}
+  ): Promise<T> {
+    const { maxAttempts = 3, ...generateOptions } = options;
+    const basePrompt = `${prompt}
+
+Respond ONLY with a JSON value matching this JSON schema (no markdown, no explanations):
+${JSON.stringify(schema)}`;
+
+    let currentPrompt = basePrompt;
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const attemptOptions: OllamaOptions = {
+        temperature: 0.2,
+        ...generateOptions,
+        format: schema,
+        deferCache: true,
+      };
+      const response = await this.generateText(currentPrompt, attemptOptions);
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(this.extractJson(response));
+        errors = validateJsonSchema(parsed, schema);
+      } catch (error) {
+        errors = [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`];
       }
 
-      const data = (await response.json()) as OllamaResponse;
-      logger.logOllamaResponse(data.response, this.model, duration);
-      return data.response;
-    } catch (error: unknown) {
-      clearTimeout(timeoutId);
+      this.telemetry?.recordValidation(
+        generateOptions.promptType || UNTYPED_PROMPT,
+        currentPrompt,
+        { passed: errors.length === 0, issues: errors }
+      );
 
-      if (error instanceof AbortError) {
-        throw new Error(`Ollama API timeout after ${this.timeout}ms`);
+      if (errors.length === 0) {
+        this.cacheResponse(currentPrompt, attemptOptions, response);
+        return parsed as T;
       }
 
-      if (error instanceof Error && 'code' in error && error.code === 'ECONNREFUSED') {
-        throw new Error(`Ollama connection refused. Please ensure:
-1. Ollama is running (try 'ollama serve')
-2. Service is accessible at ${this.ollamaClientBaseUrl}
-3. No firewall is blocking the connection`);
-      }
+      logger.warn(
+        `Structured response rejected (attempt ${attempt}/${maxAttempts}): ${errors.join('; ')}`
+      );
+      currentPrompt = `${basePrompt}
+
+Your previous response was:
+${response}
+
+It was rejected for these reasons:
+${errors.map((e) => `- ${e}`).join('\n')}
 
-      throw error instanceof Error ? error : new Error(String(error));
+Return corrected JSON only.`;
     }
+
+    throw new AIGenerationError('LLM did not return JSON matching the requested schema', {
+      model: this.provider.model,
+      errors,
+    });
+  }
+
+  /**
+   * Models that ignore the format constraint tend to wrap JSON in code fences or prose
+   */
+  private extractJson(response: string): string {
+    const fenced = response.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const text = (fenced ? fenced[1] : response).trim();
+    const start = text.search(/[[{]/);
+    if (start <= 0) return text;
+    return text.slice(start);
   }
 
   async prompt(arg: string | { prompt: string; systemPrompt?: string }): Promise<string> {
@@ -225,7 +402,7 @@ await browser.waitUntil(
 
 Now implement: "${step}"`;
 
-    return this.generateText(prompt, { temperature: 0.2 });
+    return this.generateText(prompt, { temperature: 0.2, promptType: 'step-implementation' });
   }
 
   private generateFallbackStep(step: string, stepType: string): string {
@@ -255,32 +432,20 @@ try {
   }
 
   async generateSteps(prompt: string, dom?: string): Promise<string> {
-    const sanitizedDOM = dom ? this.sanitizeDOM(dom, 5000) : '';
-    const enhancedPrompt = sanitizedDOM ? `DOM Context:\n${sanitizedDOM}\n\n${prompt}` : prompt;
+    const condensedDOM = dom ? condenseDOM(dom, { query: prompt }) : '';
+    const enhancedPrompt = condensedDOM ? `DOM Context:\n${condensedDOM}\n\n${prompt}` : prompt;
 
     return await this.generateText(enhancedPrompt, {
       temperature: 0.4,
       max_tokens: 800,
       retries: 3,
       retryDelayMs: 2000,
+      promptType: 'steps',
     });
   }
 
   async checkHealth(): Promise<boolean> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-
-    try {
-      const response = await fetch(`${this.ollamaClientBaseUrl}/api/tags`, {
-        signal: controller.signal,
-      });
-      clearTimeout(timeoutId);
-      return response.ok;
-    } catch (error: unknown) {
-      clearTimeout(timeoutId);
-      console.error('Health check failed:', error instanceof Error ? error.message : error);
-      return false;
-    }
+    return this.provider.checkHealth();
   }
 }
 
@@ -294,26 +459,86 @@ try {
  * @throws Error if Ollama API call fails
  */
 export async function generateSteps(prompt: string, dom?: string): Promise<string> {
-  const client = new OllamaClient();
+  const client = createOllamaClient();
   return await client.generateSteps(prompt, dom);
 }
 
+// One queue per process so its backpressure stats cover every client created here
+let sharedRequestQueue: AiRequestQueue | undefined;
+
+/**
+ * Returns the process-wide AI request queue, if createOllamaClient has set one up
+ */
+export function getSharedRequestQueue(): AiRequestQueue | undefined {
+  return sharedRequestQueue;
+}
+
 /**
  * Creates an OllamaClient instance with optional configuration.
- * Uses environment variables as defaults for Ollama connection settings.
+ * Uses environment variables as defaults for connection settings and picks the
+ * LLM provider (Ollama or OpenAI-compatible) configured in ConfigManager. When a
+ * cassette mode is configured the provider is wrapped to record or replay responses.
  *
  * @param config - Optional configuration object to override environment variables
  * @returns Configured OllamaClient instance
+ * @throws ValidationError if LLM_CASSETTE_MODE is not one of the cassette modes
  */
-export function createOllamaClient(config?: OllamaClientConfig): OllamaClient {
+export function createOllamaClient(config: OllamaClientConfig = {}): OllamaClient {
+  const llmConfig = getConfigManager().getLlmConfig();
+  const timeout =
+    config.timeout || (process.env.OLLAMA_TIMEOUT ? parseInt(process.env.OLLAMA_TIMEOUT) : 120000);
+
+  let provider =
+    config.provider ||
+    createLlmProvider(llmConfig.provider, {
+      baseUrl: config.baseUrl || llmConfig.baseUrl,
+      model: config.model || llmConfig.model,
+      apiKey: llmConfig.apiKey,
+      timeout,
+    });
+
+  // A misspelled mode must not record against the live model when replay was asked for
+  if (!isCassetteMode(llmConfig.cassetteMode)) {
+    throw new ValidationError(
+      `LLM_CASSETTE_MODE must be one of: ${CASSETTE_MODES.join(', ')} (got "${llmConfig.cassetteMode}")`,
+      { cassetteMode: llmConfig.cassetteMode }
+    );
+  }
+  if (llmConfig.cassetteMode !== 'off') {
+    provider = new CassetteProvider(provider, llmConfig.cassetteMode, llmConfig.cassettePath);
+  }
+
+  // Cache hits would bypass the cassette, so recording/replaying always talks to the provider
+  const aiCache = getConfigManager().getAiCacheConfig();
+  const responseCache =
+    config.responseCache ||
+    (aiCache.enabled && llmConfig.cassetteMode === 'off'
+      ? new LlmResponseCache({
+          dir: path.resolve(aiCache.dir),
+          ttlMs: aiCache.ttlHours * 3600000,
+          maxSizeBytes: aiCache.maxSizeMb * 1024 * 1024,
+        })
+      : undefined);
+
+  const aiQueue = getConfigManager().getAiQueueConfig();
+  if (aiQueue.enabled && !sharedRequestQueue) {
+    sharedRequestQueue = new AiRequestQueue({
+      dir: path.resolve(aiQueue.dir),
+      maxConcurrency: aiQueue.maxConcurrency,
+      acquireTimeoutMs: aiQueue.acquireTimeoutMs,
+    });
+  }
+
   return new OllamaClient({
-    baseUrl: process.env.OLLAMA_BASE_URL,
-    model: process.env.OLLAMA_MODEL,
-    timeout: process.env.OLLAMA_TIMEOUT ? parseInt(process.env.OLLAMA_TIMEOUT) : 120000,
+    requestQueue: aiQueue.enabled ? sharedRequestQueue : undefined,
+    telemetry: getPromptTelemetry() || undefined,
     maxRetries: process.env.OLLAMA_MAX_RETRIES ? parseInt(process.env.OLLAMA_MAX_RETRIES) : 3,
     retryDelayMs: process.env.OLLAMA_RETRY_DELAY_MS
       ? parseInt(process.env.OLLAMA_RETRY_DELAY_MS)
       : 1000,
     ...config,
+    timeout,
+    provider,
+    responseCache,
   });
 }
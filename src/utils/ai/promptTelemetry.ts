@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../logger';
+import { getConfigManager } from '../../config';
+import { estimateTokens } from '../dom/domCondenser';
+import { hashPrompt } from './cassette';
+
+/**
+ * Per-prompt telemetry
+ *
+ * Every model call is appended to a JSONL file with its prompt type, model, estimated
+ * prompt/response tokens, latency, retries and outcome. Callers that validate the output
+ * (scenarioQualityValidator, stepQualityValidator, format checks) append a validation
+ * record for the same prompt hash, so the summary can rank prompt types by cost and by
+ * how often their output is rejected.
+ */
+
+export type PromptCallOutcome = 'success' | 'error';
+
+export interface PromptCallRecord {
+  kind: 'call';
+  timestamp: string;
+  promptType: string;
+  model: string;
+  promptHash: string;
+  promptTokens: number;
+  responseTokens: number;
+  latencyMs: number;
+  retries: number;
+  /** Served from the response cache without calling the model */
+  cached: boolean;
+  outcome: PromptCallOutcome;
+  error?: string;
+}
+
+export interface PromptValidationRecord {
+  kind: 'validation';
+  timestamp: string;
+  promptType: string;
+  promptHash: string;
+  passed: boolean;
+  score?: number;
+  issues: string[];
+}
+
+export type PromptTelemetryRecord = PromptCallRecord | PromptValidationRecord;
+
+export interface PromptTypeSummary {
+  promptType: string;
+  calls: number;
+  cacheHits: number;
+  errors: number;
+  retries: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalLatencyMs: number;
+  averageLatencyMs: number;
+  validations: number;
+  validationFailures: number;
+  /** Failed calls plus rejected outputs, over calls (or validations if there are more) */
+  failureRate: number;
+}
+
+export const UNTYPED_PROMPT = 'untyped';
+
+export class PromptTelemetry {
+  constructor(private readonly filePath: string) {}
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  recordCall(
+    call: Omit<
+      PromptCallRecord,
+      'kind' | 'timestamp' | 'promptHash' | 'promptTokens' | 'responseTokens'
+    > & {
+      prompt: string;
+      response?: string;
+    }
+  ): void {
+    const { prompt, response, ...rest } = call;
+    this.append({
+      kind: 'call',
+      timestamp: new Date().toISOString(),
+      ...rest,
+      promptHash: hashPrompt(prompt),
+      promptTokens: estimateTokens(prompt),
+      responseTokens: response ? estimateTokens(response) : 0,
+    });
+  }
+
+  /**
+   * Records whether the output for a prompt passed validation
+   */
+  recordValidation(
+    promptType: string,
+    prompt: string,
+    result: { passed: boolean; score?: number; issues: string[] }
+  ): void {
+    this.append({
+      kind: 'validation',
+      timestamp: new Date().toISOString(),
+      promptType,
+      promptHash: hashPrompt(prompt),
+      passed: result.passed,
+      score: result.score,
+      issues: result.issues,
+    });
+  }
+
+  /**
+   * Reads all records; malformed lines (e.g. a partially written last line) are skipped
+   */
+  readRecords(): PromptTelemetryRecord[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const records: PromptTelemetryRecord[] = [];
+    for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as PromptTelemetryRecord);
+      } catch {
+        // Concurrent workers may leave a torn line behind
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Aggregates records per prompt type, most expensive (total tokens) first
+   */
+  summarize(records: PromptTelemetryRecord[] = this.readRecords()): PromptTypeSummary[] {
+    const byType = new Map<string, PromptTypeSummary>();
+    const get = (promptType: string): PromptTypeSummary => {
+      let summary = byType.get(promptType);
+      if (!summary) {
+        summary = {
+          promptType,
+          calls: 0,
+          cacheHits: 0,
+          errors: 0,
+          retries: 0,
+          promptTokens: 0,
+          responseTokens: 0,
+          totalLatencyMs: 0,
+          averageLatencyMs: 0,
+          validations: 0,
+          validationFailures: 0,
+          failureRate: 0,
+        };
+        byType.set(promptType, summary);
+      }
+      return summary;
+    };
+
+    for (const record of records) {
+      const summary = get(record.promptType || UNTYPED_PROMPT);
+      if (record.kind === 'validation') {
+        summary.validations++;
+        if (!record.passed) summary.validationFailures++;
+        continue;
+      }
+
+      summary.calls++;
+      summary.retries += record.retries;
+      summary.totalLatencyMs += record.latencyMs;
+      if (record.cached) summary.cacheHits++;
+      if (record.outcome === 'error') summary.errors++;
+      // Cache hits cost nothing, so only model calls count towards tokens
+      if (!record.cached) {
+        summary.promptTokens += record.promptTokens;
+        summary.responseTokens += record.responseTokens;
+      }
+    }
+
+    return Array.from(byType.values())
+      .map((summary) => {
+        const attempts = Math.max(summary.calls, summary.validations);
+        return {
+          ...summary,
+          averageLatencyMs: summary.calls ? Math.round(summary.totalLatencyMs / summary.calls) : 0,
+          failureRate: attempts ? (summary.errors + summary.validationFailures) / attempts : 0,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.promptTokens + b.responseTokens - (a.promptTokens + a.responseTokens) ||
+          b.failureRate - a.failureRate
+      );
+  }
+
+  /**
+   * Renders summaries as a fixed-width table for the CLI
+   */
+  formatSummary(summaries: PromptTypeSummary[]): string {
+    const header = [
+      'Prompt type',
+      'Calls',
+      'Cached',
+      'Tokens in/out',
+      'Avg ms',
+      'Retries',
+      'Failed',
+    ];
+    const rows = summaries.map((s) => [
+      s.promptType,
+      String(s.calls),
+      String(s.cacheHits),
+      `${s.promptTokens}/${s.responseTokens}`,
+      String(s.averageLatencyMs),
+      String(s.retries),
+      `${(s.failureRate * 100).toFixed(1)}% (${s.errors + s.validationFailures})`,
+    ]);
+
+    const widths = header.map((title, column) =>
+      Math.max(title.length, ...rows.map((row) => row[column].length))
+    );
+    const format = (row: string[]) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd();
+
+    return [
+      format(header),
+      format(widths.map((width) => '-'.repeat(width))),
+      ...rows.map(format),
+    ].join('\n');
+  }
+
+  private append(record: PromptTelemetryRecord): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Single appendFileSync per record keeps lines from concurrent workers intact
+      fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+    } catch (error) {
+      logger.debug(
+        `Failed to write prompt telemetry: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+}
+
+let sharedTelemetry: PromptTelemetry | null | undefined;
+
+/**
+ * Process-wide telemetry writer, or null when PROMPT_TELEMETRY=false
+ */
+export function getPromptTelemetry(): PromptTelemetry | null {
+  if (sharedTelemetry === undefined) {
+    const config = getConfigManager().getTelemetryConfig();
+    sharedTelemetry = config.enabled ? new PromptTelemetry(path.resolve(config.file)) : null;
+  }
+  return sharedTelemetry;
+}
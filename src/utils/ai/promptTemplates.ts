@@ -1,11 +1,42 @@
 import { PageAnalysis } from '../dom/domAnalyzer';
-
-export type ScenarioType = 'happy-path' | 'negative' | 'edge-case' | 'validation' | 'workflow';
+import { loadTemplatePacks } from './templatePacks';
+import { exampleLibrary } from './exampleLibrary';
+import { UNTRUSTED_CONTENT_NOTICE, delimitUntrusted, sanitizePageData } from './promptSafety';
+import { getDialect } from '../test-gen/gherkinAst';
+import { SECURITY_PAYLOADS, isTextField } from '../test-gen/securityPayloads';
+
+export type BuiltInScenarioType =
+  | 'happy-path'
+  | 'negative'
+  | 'edge-case'
+  | 'validation'
+  | 'workflow'
+  | 'accessibility'
+  | 'security';
+
+/**
+ * Built-in scenario types plus any type registered by a template pack
+ */
+export type ScenarioType = BuiltInScenarioType | (string & {});
+
+export const BUILT_IN_SCENARIO_TYPES: BuiltInScenarioType[] = [
+  'happy-path',
+  'negative',
+  'edge-case',
+  'validation',
+  'workflow',
+  'accessibility',
+  'security',
+];
 
 export interface PromptTemplate {
   type: ScenarioType;
   title: string;
   description: string;
+  /** Tags for scenarios of a custom type (built-in types use ScenarioClassifier's map) */
+  tags?: string[];
+  /** Priority for scenarios of a custom type (built-in types use ScenarioClassifier's map) */
+  priority?: number;
   generatePrompt(analysis: PageAnalysis, userInstruction: string): string;
 }
 
@@ -31,8 +62,7 @@ class HappyPathTemplate implements PromptTemplate {
 
     return `Generate a happy path Cucumber scenario for: "${userInstruction}"
 
-Application: ${analysis.mainFunctionality}
-${formInfo}
+${delimitUntrusted(`Application: ${analysis.mainFunctionality}${formInfo}`)}
 
 Requirements:
 1. User successfully completes the main action with valid, realistic data
@@ -85,9 +115,7 @@ class NegativeTestTemplate implements PromptTemplate {
 
     return `Generate negative test Cucumber scenarios for: "${userInstruction}"
 
-Application: ${analysis.mainFunctionality}
-${validationInfo}
-${errorElements}
+${delimitUntrusted(`Application: ${analysis.mainFunctionality}\n${validationInfo}\n${errorElements}`)}
 
 Focus on REALISTIC error conditions that the application actually checks:
 1. Invalid input formats (only if the form validates format)
@@ -133,8 +161,7 @@ class EdgeCaseTemplate implements PromptTemplate {
 
     return `Generate edge case Cucumber scenarios for: "${userInstruction}"
 
-Application: ${analysis.mainFunctionality}
-${fieldConstraints}
+${delimitUntrusted(`Application: ${analysis.mainFunctionality}\n${fieldConstraints}`)}
 
 Edge cases to consider (only if they are RELEVANT to the form):
 1. Minimum/maximum field lengths (if length constraints exist)
@@ -200,7 +227,7 @@ class ValidationTestTemplate implements PromptTemplate {
 
     return `Generate validation test Cucumber scenarios for: "${userInstruction}"
 
-${validationChecks}
+${delimitUntrusted(validationChecks)}
 ${existingFieldsConstraint}
 
 IMPORTANT - Create COHERENT scenarios that test ONE validation rule at a time:
@@ -253,9 +280,7 @@ class WorkflowTemplate implements PromptTemplate {
 
     return `Generate a complete user workflow Cucumber scenario for: "${userInstruction}"
 
-Application: ${analysis.mainFunctionality}
-${buttonInfo}
-${linkInfo}
+${delimitUntrusted(`Application: ${analysis.mainFunctionality}\n${buttonInfo}\n${linkInfo}`)}
 
 Create a scenario that includes:
 1. Initial state/navigation
@@ -277,6 +302,85 @@ Scenario: [Complete user workflow]
   }
 }
 
+class AccessibilityTemplate implements PromptTemplate {
+  type: ScenarioType = 'accessibility';
+  title = 'Accessibility Scenarios';
+  description = 'Labels, alt text, accessible names, heading structure and keyboard use';
+
+  generatePrompt(analysis: PageAnalysis, userInstruction: string): string {
+    const fields = analysis.inputFields
+      .filter((f) => !['hidden', 'submit', 'button', 'reset'].includes(f.type))
+      .map((f) => `${f.name} (${f.label ? `label "${f.label}"` : 'no label'})`);
+    const headings = analysis.headings.map((h) => `h${h.level} ${h.text}`).slice(0, 8);
+
+    return `Generate accessibility Cucumber scenarios for: "${userInstruction}"
+
+${delimitUntrusted(`Application: ${analysis.mainFunctionality}
+Form fields: ${fields.join(', ') || 'none'}
+Headings: ${headings.join(', ') || 'none'}
+Buttons: ${analysis.buttons.map((b) => b.text).join(', ') || 'none'}`)}
+
+Cover what an automated check cannot judge on its own:
+1. The page passes the built-in accessibility rules (labels, alt text, button names, heading levels, unique IDs)
+2. The main action can be completed with the keyboard only (Tab to each field, Enter to submit)
+3. Error messages after an invalid submission are announced (role="alert" or aria-live)
+
+IMPORTANT:
+- Use the exact step "Then the page should have no accessibility violations" for the rule check
+- Generate 2 scenarios, each a complete workflow
+- Only refer to fields and buttons listed above
+
+Format as valid Gherkin only, no commentary or explanations:
+@accessibility @a11y
+Scenario: [Accessibility scenario name]
+  Given [precondition]
+  When [user action, keyboard only where relevant]
+  Then the page should have no accessibility violations
+  And [accessible outcome]`;
+  }
+}
+
+class SecurityTemplate implements PromptTemplate {
+  type: ScenarioType = 'security';
+  title = 'Security Input Scenarios';
+  description = 'Injection payloads in every text field, checked for unescaped reflection';
+
+  generatePrompt(analysis: PageAnalysis, userInstruction: string): string {
+    const textFields = analysis.inputFields.filter(isTextField).map((f) => f.label || f.name);
+    const submit = analysis.forms[0]?.submit_button?.text || analysis.buttons[0]?.text || 'submit';
+    const rows = SECURITY_PAYLOADS.map((p) => `    | ${p.id} |`).join('\n');
+
+    return `Generate a security input Cucumber scenario for: "${userInstruction}"
+
+${delimitUntrusted(`Application: ${analysis.mainFunctionality}
+Text fields: ${textFields.join(', ') || 'none'}
+Submit button: ${submit}`)}
+
+Write ONE Scenario Outline that submits each payload from the built-in payload library
+(XSS, SQL meta-characters, overlong Unicode, format strings) in every text field and checks
+that it is not reflected unescaped.
+
+IMPORTANT:
+- Use these two steps exactly as written; they are implemented by the framework:
+  When I fill every text field with the "<payload>" security payload
+  Then the "<payload>" security payload should not be reflected unescaped
+- Refer to payloads by the ids in the Examples table below, never by their content
+- Keep the Examples table exactly as given
+
+Format as valid Gherkin only, no commentary or explanations:
+@security @injection
+Scenario Outline: Text fields do not reflect the <payload> payload
+  Given [precondition]
+  When I fill every text field with the "<payload>" security payload
+  And I click the "${submit.toLowerCase()}" button
+  Then the "<payload>" security payload should not be reflected unescaped
+
+  Examples:
+    | payload |
+${rows}`;
+  }
+}
+
 export class PromptTemplateManager {
   private templates: Map<ScenarioType, PromptTemplate>;
 
@@ -287,6 +391,8 @@ export class PromptTemplateManager {
       ['edge-case', new EdgeCaseTemplate()],
       ['validation', new ValidationTestTemplate()],
       ['workflow', new WorkflowTemplate()],
+      ['accessibility', new AccessibilityTemplate()],
+      ['security', new SecurityTemplate()],
     ]);
   }
 
@@ -294,13 +400,69 @@ export class PromptTemplateManager {
     return this.templates.get(type) || this.templates.get('happy-path')!;
   }
 
+  hasTemplate(type: ScenarioType): boolean {
+    return this.templates.has(type);
+  }
+
   getAllTemplates(): PromptTemplate[] {
     return Array.from(this.templates.values());
   }
 
-  generatePromptForType(type: ScenarioType, analysis: PageAnalysis, instruction: string): string {
+  /**
+   * Registers a template, replacing any existing template of the same type
+   */
+  registerTemplate(template: PromptTemplate): void {
+    this.templates.set(template.type, template);
+  }
+
+  /**
+   * Scenario types added by template packs on top of the built-in ones
+   */
+  getCustomTypes(): ScenarioType[] {
+    return Array.from(this.templates.keys()).filter(
+      (type) => !(BUILT_IN_SCENARIO_TYPES as string[]).includes(type)
+    );
+  }
+
+  /**
+   * Loads template packs from disk and registers their templates
+   *
+   * @param dir - Directory containing *.json template packs
+   * @returns Number of templates registered
+   */
+  loadTemplatePacks(dir: string): number {
+    const templates = loadTemplatePacks(dir);
+    for (const template of templates) {
+      const action = this.templates.has(template.type) ? 'Overriding' : 'Registering';
+      console.log(`🧩 ${action} "${template.type}" prompt template from ${template.source}`);
+      this.registerTemplate(template);
+    }
+    return templates.length;
+  }
+
+  /**
+   * @param language - Gherkin language of the feature; titles and step text are asked for in
+   * it, while keywords stay English and are translated after generation
+   */
+  generatePromptForType(
+    type: ScenarioType,
+    analysis: PageAnalysis,
+    instruction: string,
+    language = 'en'
+  ): string {
     const template = this.getTemplate(type);
-    return template.generatePrompt(analysis, instruction);
+    const prompt = template.generatePrompt(sanitizePageData(analysis), instruction);
+    return this.withGoldenExamples(
+      type,
+      analysis,
+      instruction,
+      language === 'en' ? prompt : `${prompt}\n\n${this.languageInstruction(language)}`
+    );
+  }
+
+  private languageInstruction(language: string): string {
+    const dialect = getDialect(language);
+    return `LANGUAGE: Write the Feature title, scenario titles and step text in ${dialect.name} (${dialect.native}). Keep the Gherkin keywords in English (Feature, Scenario, Given, When, Then, And, But).`;
   }
 
   generateMultipleScenarioPrompts(
@@ -308,14 +470,38 @@ export class PromptTemplateManager {
     instruction: string
   ): Map<ScenarioType, string> {
     const prompts = new Map<ScenarioType, string>();
+    const safeAnalysis = sanitizePageData(analysis);
 
     for (const [type, template] of this.templates) {
-      prompts.set(type, template.generatePrompt(analysis, instruction));
+      const prompt = template.generatePrompt(safeAnalysis, instruction);
+      prompts.set(type, this.withGoldenExamples(type, analysis, instruction, prompt));
     }
 
     return prompts;
   }
 
+  /**
+   * Prefixes a prompt with the untrusted-content notice and accepted scenarios of the same
+   * type from the golden example library
+   */
+  private withGoldenExamples(
+    type: ScenarioType,
+    analysis: PageAnalysis,
+    instruction: string,
+    prompt: string
+  ): string {
+    const examples = exampleLibrary.find('scenario', {
+      intent: type,
+      pageType: analysis.mainFunctionality,
+      text: instruction,
+    });
+    // Pack templates that embed page data already start with the notice
+    const body = prompt.startsWith(UNTRUSTED_CONTENT_NOTICE)
+      ? prompt.slice(UNTRUSTED_CONTENT_NOTICE.length).trimStart()
+      : prompt;
+    return `${UNTRUSTED_CONTENT_NOTICE}\n\n${exampleLibrary.formatForPrompt(examples)}${body}`;
+  }
+
   /**
    * Generates an enhanced prompt for stable selector generation
    * Guides step definitions to use multi-selector patterns with fallbacks
@@ -343,12 +529,14 @@ EXAMPLE - Success Message Selector:
 Good:   '[class*="success"], #success, [id*="alert"], .alert-success, [role="status"]'
 Bad:    '.message' or 'div:nth-of-type(2)'
 
+${UNTRUSTED_CONTENT_NOTICE}
+
 Step: "${stepDescription}"
 Elements available in page:
-- Input fields: ${analysis.inputFields.map((f) => f.name).join(', ')}
+${delimitUntrusted(`- Input fields: ${analysis.inputFields.map((f) => f.name).join(', ')}
 - Buttons: ${analysis.buttons.map((b) => b.text).join(', ')}
 - Success elements: ${analysis.successElements.map((e) => e.description).join(', ')}
-- Error elements: ${analysis.errorElements.map((e) => e.description).join(', ')}
+- Error elements: ${analysis.errorElements.map((e) => e.description).join(', ')}`)}
 
 Generate a step definition that:
 1. Uses the most robust multi-selector pattern
@@ -0,0 +1,34 @@
+import {
+  LLM_PROVIDER_TYPES,
+  LlmProvider,
+  LlmProviderConfig,
+  LlmProviderType,
+} from '../llmProvider';
+import { ValidationError } from '../../errors';
+import { OllamaProvider } from './ollamaProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+export { OllamaProvider } from './ollamaProvider';
+export { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+/**
+ * Creates the provider implementation for the given provider type.
+ *
+ * @param type - Which kind of inference server to talk to
+ * @param config - Connection settings for the server
+ * @returns Provider instance ready to be handed to OllamaClient
+ * @throws ValidationError if the type is not a known provider
+ */
+export function createLlmProvider(type: LlmProviderType, config: LlmProviderConfig): LlmProvider {
+  switch (type) {
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    default:
+      throw new ValidationError(
+        `Unknown LLM provider "${String(type)}". Use one of: ${LLM_PROVIDER_TYPES.join(', ')}`,
+        { provider: type }
+      );
+  }
+}
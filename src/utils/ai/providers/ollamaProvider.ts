@@ -0,0 +1,98 @@
+import fetch, { RequestInit, AbortError } from 'node-fetch';
+import { logger } from '../../logger';
+import { LlmGenerateOptions, LlmProvider, LlmProviderConfig } from '../llmProvider';
+
+interface OllamaGenerateResponse {
+  model: string;
+  response: string;
+  done: boolean;
+}
+
+/**
+ * Talks to a native Ollama server through /api/generate and /api/tags
+ */
+export class OllamaProvider implements LlmProvider {
+  readonly type = 'ollama' as const;
+  readonly baseUrl: string;
+  readonly model: string;
+  private timeout: number;
+
+  constructor(config: LlmProviderConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.model = config.model;
+    this.timeout = config.timeout;
+  }
+
+  async generate(prompt: string, options: LlmGenerateOptions): Promise<string> {
+    const bodyPayload = {
+      model: this.model,
+      prompt,
+      stream: false,
+      format: options.format,
+      options: {
+        temperature: options.temperature,
+        num_predict: options.max_tokens,
+        top_p: options.top_p,
+        repeat_penalty: options.repeat_penalty,
+      },
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(bodyPayload),
+        signal: controller.signal,
+      } as RequestInit);
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        const errorMsg = `Ollama API error: ${response.status} ${response.statusText}`;
+        logger.error(errorMsg, new Error(errorBody));
+        throw new Error(errorMsg);
+      }
+
+      const data = (await response.json()) as OllamaGenerateResponse;
+      return data.response;
+    } catch (error: unknown) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof AbortError) {
+        throw new Error(`Ollama API timeout after ${this.timeout}ms`);
+      }
+
+      if (error instanceof Error && 'code' in error && error.code === 'ECONNREFUSED') {
+        throw new Error(`Ollama connection refused. Please ensure:
+1. Ollama is running (try 'ollama serve')
+2. Service is accessible at ${this.baseUrl}
+3. No firewall is blocking the connection`);
+      }
+
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  async checkHealth(): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tags`, {
+        signal: controller.signal,
+      } as RequestInit);
+      clearTimeout(timeoutId);
+      return response.ok;
+    } catch (error: unknown) {
+      clearTimeout(timeoutId);
+      console.error('Health check failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import OpenAI from 'openai';
+import { ResponseFormatJSONObject, ResponseFormatJSONSchema } from 'openai/resources/shared';
+import { logger } from '../../logger';
+import { LlmGenerateOptions, LlmProvider, LlmProviderConfig } from '../llmProvider';
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API
+ * (llama.cpp server, vLLM, LM Studio, Ollama's /v1 endpoint, ...)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly type = 'openai-compatible' as const;
+  readonly baseUrl: string;
+  readonly model: string;
+  private timeout: number;
+  private client: OpenAI;
+
+  constructor(config: LlmProviderConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.model = config.model;
+    this.timeout = config.timeout;
+    this.client = new OpenAI({
+      baseURL: this.baseUrl,
+      // Local inference servers ignore the key, but the SDK refuses to start without one
+      apiKey: config.apiKey || 'not-needed',
+      timeout: this.timeout,
+      // OllamaClient owns the retry policy
+      maxRetries: 0,
+    });
+  }
+
+  async generate(prompt: string, options: LlmGenerateOptions): Promise<string> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: false,
+        temperature: options.temperature,
+        max_tokens: options.max_tokens,
+        top_p: options.top_p,
+        response_format: this.toResponseFormat(options.format),
+      });
+
+      return completion.choices[0]?.message?.content ?? '';
+    } catch (error: unknown) {
+      if (error instanceof OpenAI.APIConnectionTimeoutError) {
+        throw new Error(`OpenAI-compatible API timeout after ${this.timeout}ms`);
+      }
+
+      if (error instanceof OpenAI.APIConnectionError) {
+        throw new Error(`OpenAI-compatible server connection failed. Please ensure:
+1. The inference server is running
+2. Service is accessible at ${this.baseUrl}
+3. No firewall is blocking the connection`);
+      }
+
+      if (error instanceof OpenAI.APIError) {
+        const errorMsg = `OpenAI-compatible API error: ${error.status} ${error.message}`;
+        logger.error(errorMsg, error);
+        throw new Error(errorMsg);
+      }
+
+      throw error instanceof Error ? error : new Error(String(error));
+    }
+  }
+
+  private toResponseFormat(
+    format: LlmGenerateOptions['format']
+  ): ResponseFormatJSONObject | ResponseFormatJSONSchema | undefined {
+    if (!format) return undefined;
+    if (format === 'json') return { type: 'json_object' };
+    return {
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: format as unknown as Record<string, unknown> },
+    };
+  }
+
+  async checkHealth(): Promise<boolean> {
+    try {
+      await this.client.models.list({ timeout: 5000 });
+      return true;
+    } catch (error: unknown) {
+      console.error('Health check failed:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../logger';
+import { AIGenerationError } from '../errors';
+
+/**
+ * Cross-process AI request queue
+ *
+ * WDIO workers are separate processes, so concurrency is coordinated through lock files:
+ * each in-flight request holds one of `maxConcurrency` slot files (created with the
+ * exclusive "wx" flag), and waiting requests leave a ticket in `waiting/`. Tickets are
+ * ordered by priority and then arrival time, so healing calls overtake bulk generation.
+ * Locks and tickets of dead processes are cleaned up by whoever sees them next.
+ */
+
+export type AiRequestPriority = 'healing' | 'interactive' | 'bulk';
+
+export const AI_REQUEST_PRIORITIES: AiRequestPriority[] = ['healing', 'interactive', 'bulk'];
+
+export interface AiRequestQueueOptions {
+  dir: string;
+  maxConcurrency: number;
+  /** How long a request may wait for a slot before failing */
+  acquireTimeoutMs: number;
+  pollIntervalMs?: number;
+  /** Slots held longer than this are treated as abandoned even if the process is alive */
+  staleLockMs?: number;
+}
+
+export interface AiRequestQueueStats {
+  acquired: number;
+  timeouts: number;
+  queued: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  maxQueueDepth: number;
+}
+
+interface LockOwner {
+  pid: number;
+  acquiredAt: number;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export class AiRequestQueue {
+  private readonly waitingDir: string;
+  private readonly pollIntervalMs: number;
+  private readonly staleLockMs: number;
+  private ticketSequence = 0;
+  private stats: AiRequestQueueStats = {
+    acquired: 0,
+    timeouts: 0,
+    queued: 0,
+    totalWaitMs: 0,
+    maxWaitMs: 0,
+    maxQueueDepth: 0,
+  };
+
+  constructor(private readonly options: AiRequestQueueOptions) {
+    this.waitingDir = path.join(options.dir, 'waiting');
+    this.pollIntervalMs = options.pollIntervalMs ?? 100;
+    this.staleLockMs = options.staleLockMs ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Runs fn while holding a slot; the slot is released even if fn throws
+   */
+  async run<T>(priority: AiRequestPriority, fn: () => Promise<T>): Promise<T> {
+    const release = await this.acquire(priority);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Waits for a free slot
+   *
+   * @returns Function that releases the slot
+   * @throws AIGenerationError if no slot frees up within acquireTimeoutMs
+   */
+  async acquire(priority: AiRequestPriority): Promise<() => void> {
+    fs.mkdirSync(this.waitingDir, { recursive: true });
+
+    const startTime = Date.now();
+    const ticket = this.createTicket(priority, startTime);
+    let waited = false;
+
+    try {
+      while (true) {
+        const waiting = this.listTickets();
+        const position = waiting.indexOf(ticket);
+        const freeSlots = this.listFreeSlots();
+
+        // Only the first N tickets may compete for the N free slots
+        if (position >= 0 && position < freeSlots.length) {
+          for (const slot of freeSlots) {
+            const release = this.tryLock(slot);
+            if (release) {
+              this.recordAcquired(priority, Date.now() - startTime, waited);
+              return release;
+            }
+          }
+        }
+
+        if (!waited) {
+          waited = true;
+          this.stats.queued++;
+          this.stats.maxQueueDepth = Math.max(this.stats.maxQueueDepth, waiting.length);
+          logger.debug(
+            `AI request (${priority}) queued behind ${position} request(s); ${freeSlots.length}/${this.options.maxConcurrency} slot(s) free`
+          );
+        }
+
+        if (Date.now() - startTime >= this.options.acquireTimeoutMs) {
+          this.stats.timeouts++;
+          logger.recordMetric('ai_queue_timeout', Date.now() - startTime);
+          throw new AIGenerationError(
+            `Timed out after ${this.options.acquireTimeoutMs}ms waiting for an AI request slot`,
+            { priority, maxConcurrency: this.options.maxConcurrency, queueDepth: waiting.length }
+          );
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+      }
+    } finally {
+      this.removeFile(path.join(this.waitingDir, ticket));
+    }
+  }
+
+  getStats(): AiRequestQueueStats & { averageWaitMs: number } {
+    return {
+      ...this.stats,
+      averageWaitMs: this.stats.acquired
+        ? Math.round(this.stats.totalWaitMs / this.stats.acquired)
+        : 0,
+    };
+  }
+
+  /**
+   * Ticket names sort by priority, then arrival time: "<rank>-<timestamp>-<pid>-<seq>"
+   */
+  private createTicket(priority: AiRequestPriority, timestamp: number): string {
+    const rank = AI_REQUEST_PRIORITIES.indexOf(priority);
+    const ticket = `${rank}-${String(timestamp).padStart(15, '0')}-${process.pid}-${this.ticketSequence++}`;
+    fs.writeFileSync(path.join(this.waitingDir, ticket), '', 'utf-8');
+    return ticket;
+  }
+
+  private listTickets(): string[] {
+    return fs
+      .readdirSync(this.waitingDir)
+      .filter((ticket) => {
+        const pid = parseInt(ticket.split('-')[2], 10);
+        if (pid === process.pid || isProcessAlive(pid)) return true;
+        this.removeFile(path.join(this.waitingDir, ticket));
+        return false;
+      })
+      .sort();
+  }
+
+  private listFreeSlots(): string[] {
+    const free: string[] = [];
+    for (let index = 0; index < this.options.maxConcurrency; index++) {
+      const slot = path.join(this.options.dir, `slot-${index}.lock`);
+      if (!fs.existsSync(slot) || this.isStale(slot)) {
+        free.push(slot);
+      }
+    }
+    return free;
+  }
+
+  private isStale(slot: string): boolean {
+    try {
+      const owner = JSON.parse(fs.readFileSync(slot, 'utf-8')) as LockOwner;
+      if (owner.pid !== process.pid && !isProcessAlive(owner.pid)) {
+        this.removeFile(slot);
+        return true;
+      }
+      if (Date.now() - owner.acquiredAt > this.staleLockMs) {
+        this.removeFile(slot);
+        return true;
+      }
+      return false;
+    } catch {
+      // Lock file is being written by its owner right now
+      return false;
+    }
+  }
+
+  private tryLock(slot: string): (() => void) | null {
+    try {
+      const owner: LockOwner = { pid: process.pid, acquiredAt: Date.now() };
+      fs.writeFileSync(slot, JSON.stringify(owner), { flag: 'wx' });
+    } catch {
+      return null;
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.removeFile(slot);
+    };
+  }
+
+  private recordAcquired(priority: AiRequestPriority, waitMs: number, waited: boolean): void {
+    this.stats.acquired++;
+    this.stats.totalWaitMs += waitMs;
+    this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waitMs);
+    logger.recordMetric('ai_queue_wait', waitMs);
+    if (waited) {
+      logger.debug(`AI request (${priority}) acquired a slot after waiting ${waitMs}ms`);
+    }
+  }
+
+  private removeFile(filePath: string): void {
+    try {
+      fs.unlinkSync(filePath);
+    } catch {
+      // Already removed by another process
+    }
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * SemanticMatcher Tests
+ * The step's actor ("the user", "I") must not pull matches towards the username field
+ */
+
+import { discoverElementsFromDOM } from '../dom/discoverElementsFromDOM';
+import { SemanticMatcher, stripStepSubject, tokenizeForMatching } from './semanticMatcher';
+
+const LOGIN_PAGE = `
+  <form id="login">
+    <input type="text" id="username" name="username" placeholder="Username">
+    <input type="password" id="password" name="password" placeholder="Password">
+    <button type="submit" id="submit">Sign in</button>
+  </form>
+`;
+
+describe('stripStepSubject', () => {
+  test.each([
+    ['the user clicks the Sign in button', 'clicks the Sign in button'],
+    ['When the user enters "tomsmith"', 'enters "tomsmith"'],
+    ['Then I should see an error message', 'should see an error message'],
+    ['User opens the login page', 'opens the login page'],
+  ])('should strip the subject from "%s"', (step, expected) => {
+    expect(stripStepSubject(step)).toBe(expected);
+  });
+
+  test('should keep steps that name the username field', () => {
+    expect(stripStepSubject('username field is empty')).toBe('username field is empty');
+  });
+});
+
+describe('tokenizeForMatching', () => {
+  test('should not fold "user" into "username"', () => {
+    expect(tokenizeForMatching('the user')).toEqual(['user']);
+    expect(tokenizeForMatching('user name')).toEqual(['username']);
+  });
+});
+
+describe('SemanticMatcher', () => {
+  const matcher = new SemanticMatcher();
+  const elements = discoverElementsFromDOM(LOGIN_PAGE);
+  const best = async (phrase: string) =>
+    (await matcher.rankElements(phrase, elements, { limit: 1 }))[0]?.item.selector;
+
+  test('should match the button a step clicks, not the username field', async () => {
+    expect(await best('the user clicks the Sign in button')).toBe('#submit');
+  });
+
+  test('should not match the username field for an error message step', async () => {
+    expect(await best('the user should see an error message')).toBeUndefined();
+
+    const alert = {
+      tag: 'div',
+      id: 'error',
+      role: 'alert',
+      text: 'Invalid credentials',
+      selector: '#error',
+    };
+    const [match] = await matcher.rankElements(
+      'the user should see an error message',
+      [...elements, alert],
+      { limit: 1 }
+    );
+    expect(match.item.selector).toBe('#error');
+  });
+
+  test('should still match the username field when the step names it', async () => {
+    expect(await best('the user enters "tomsmith" into the username field')).toBe('#username');
+  });
+});
@@ -0,0 +1,283 @@
+import fetch from 'node-fetch';
+import { logger } from '../logger';
+import { getConfigManager } from '../../config';
+import { DiscoveredElement } from '../dom/discoverElementsFromDOM';
+
+/**
+ * Semantic element matching
+ *
+ * Ranks candidates (discovered DOM elements, page-object getters) against a step's target
+ * phrase. The default backend is a deterministic TF-IDF cosine similarity over tokens with
+ * common UI synonyms folded together ("Sign in" = "Log in"); ELEMENT_MATCHING=embeddings
+ * switches to Ollama's /api/embed endpoint and falls back to TF-IDF if that fails.
+ */
+
+export type MatchingBackendType = 'tfidf' | 'embeddings';
+
+export const MATCHING_BACKENDS: MatchingBackendType[] = ['tfidf', 'embeddings'];
+
+export interface RankedMatch<T> {
+  item: T;
+  /** Cosine similarity in [0, 1] */
+  score: number;
+}
+
+export interface RankOptions {
+  limit?: number;
+  /** Matches scoring below this are dropped */
+  minScore?: number;
+}
+
+interface EmbeddingBackend {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Multi-word phrases are folded before tokenizing so they survive as one token */
+const PHRASE_SYNONYMS: Array<[RegExp, string]> = [
+  [/\b(?:log|sign)[\s-]?in\b/g, 'login'],
+  [/\b(?:log|sign)[\s-]?out\b/g, 'logout'],
+  [/\b(?:sign[\s-]?up|create (?:an )?account|register)\b/g, 'signup'],
+  [/\buser[\s-]?name\b|\buser id\b/g, 'username'],
+  [/\be[\s-]mail\b/g, 'email'],
+  [/\bpass[\s-]?word\b|\bpass[\s-]?code\b|\bpwd\b/g, 'password'],
+];
+
+const WORD_SYNONYMS: Record<string, string> = {
+  signin: 'login',
+  logon: 'login',
+  signout: 'logout',
+  send: 'submit',
+  go: 'submit',
+  continue: 'submit',
+  find: 'search',
+  lookup: 'search',
+  mail: 'email',
+  btn: 'button',
+  pass: 'password',
+  msg: 'message',
+  alert: 'message',
+  err: 'error',
+  invalid: 'error',
+  close: 'dismiss',
+  cancel: 'dismiss',
+};
+
+const STOP_WORDS = new Set([
+  ...'the a an i on in to of and or for with should be'.split(' '),
+  ...'see click enter type into field is am my it this that'.split(' '),
+]);
+
+/** Step keyword and actor ("When the user", "Then I") that say nothing about the element */
+const STEP_SUBJECT = /^\s*(?:(?:given|when|then|and|but)\s+)?(?:the user|a user|user|i)\b\s*/i;
+
+/**
+ * Removes the leading keyword and actor of a step so "the user" does not match #username
+ */
+export function stripStepSubject(text: string): string {
+  return text.replace(STEP_SUBJECT, '');
+}
+
+/**
+ * Lowercases, splits camelCase/snake_case/kebab-case and folds synonyms
+ */
+export function tokenizeForMatching(text: string): string[] {
+  let normalized = text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_\-#.[\]="'()]/g, ' ')
+    .toLowerCase();
+
+  for (const [pattern, replacement] of PHRASE_SYNONYMS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map((word) => WORD_SYNONYMS[word] || word);
+}
+
+/**
+ * Text used to match a discovered element: visible text plus its identifying attributes
+ */
+export function describeElement(element: DiscoveredElement): string {
+  return [
+    element.text,
+    element.ariaLabel,
+    element.placeholder,
+    element.name,
+    element.id,
+    element.role,
+    element.type,
+    element.tag === 'a' ? 'link' : element.tag,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/**
+ * TF-IDF vectors over the query and candidates being ranked together
+ */
+class TfIdfBackend implements EmbeddingBackend {
+  async embed(texts: string[]): Promise<number[][]> {
+    const documents = texts.map(tokenizeForMatching);
+    const vocabulary = Array.from(new Set(documents.flat()));
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of documents) {
+      for (const token of new Set(tokens)) {
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      }
+    }
+
+    return documents.map((tokens) =>
+      vocabulary.map((term) => {
+        const termFrequency = tokens.filter((token) => token === term).length;
+        if (termFrequency === 0) return 0;
+        const idf = Math.log((1 + texts.length) / (1 + documentFrequency.get(term)!)) + 1;
+        return (termFrequency / tokens.length) * idf;
+      })
+    );
+  }
+}
+
+class OllamaEmbeddingBackend implements EmbeddingBackend {
+  private vectors = new Map<string, number[]>();
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly model: string,
+    private readonly timeout: number
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const missing = Array.from(new Set(texts.filter((text) => !this.vectors.has(text))));
+
+    if (missing.length > 0) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      try {
+        const response = await fetch(`${this.baseUrl}/api/embed`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: this.model, input: missing }),
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Ollama embeddings error: ${response.status} ${response.statusText}`);
+        }
+
+        const data = (await response.json()) as { embeddings?: number[][] };
+        if (!data.embeddings || data.embeddings.length !== missing.length) {
+          throw new Error('Ollama embeddings response is missing vectors');
+        }
+        missing.forEach((text, index) => this.vectors.set(text, data.embeddings![index]));
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+
+    return texts.map((text) => this.vectors.get(text)!);
+  }
+}
+
+export class SemanticMatcher {
+  private readonly tfIdf = new TfIdfBackend();
+  private embeddings?: EmbeddingBackend;
+  private embeddingsFailed = false;
+
+  constructor(embeddings?: EmbeddingBackend) {
+    this.embeddings = embeddings;
+  }
+
+  /**
+   * Ranks items by similarity between the phrase (without a leading step subject) and each
+   * item's text
+   */
+  async rank<T>(
+    phrase: string,
+    items: T[],
+    toText: (item: T) => string,
+    options: RankOptions = {}
+  ): Promise<Array<RankedMatch<T>>> {
+    const { limit = items.length, minScore = 0 } = options;
+    if (items.length === 0 || !phrase.trim()) {
+      return [];
+    }
+
+    const texts = [stripStepSubject(phrase), ...items.map(toText)];
+    const [queryVector, ...itemVectors] = await this.embed(texts);
+
+    return items
+      .map((item, index) => ({ item, score: cosineSimilarity(queryVector, itemVectors[index]) }))
+      .filter((match) => match.score > 0 && match.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Ranks discovered DOM elements against a step's target phrase
+   */
+  rankElements(
+    phrase: string,
+    elements: DiscoveredElement[],
+    options?: RankOptions
+  ): Promise<Array<RankedMatch<DiscoveredElement>>> {
+    return this.rank(phrase, elements, describeElement, options);
+  }
+
+  private async embed(texts: string[]): Promise<number[][]> {
+    if (this.embeddings && !this.embeddingsFailed) {
+      try {
+        return await this.embeddings.embed(texts);
+      } catch (error) {
+        // One failure (model not pulled, old Ollama) disables embeddings for the process
+        this.embeddingsFailed = true;
+        logger.warn(
+          `Embeddings unavailable, using TF-IDF matching: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+    return this.tfIdf.embed(texts);
+  }
+}
+
+/**
+ * Creates a matcher for the backend selected in ConfigManager (ELEMENT_MATCHING)
+ */
+export function createSemanticMatcher(): SemanticMatcher {
+  const configManager = getConfigManager();
+  const matching = configManager.getMatchingConfig();
+  if (matching.backend !== 'embeddings') {
+    return new SemanticMatcher();
+  }
+
+  const ollama = configManager.getOllamaConfig();
+  return new SemanticMatcher(
+    new OllamaEmbeddingBackend(ollama.baseUrl, matching.embeddingModel, ollama.timeout)
+  );
+}
+
+let sharedMatcher: SemanticMatcher | undefined;
+
+/**
+ * Process-wide matcher, so embedding vectors are computed once per text
+ */
+export function getSemanticMatcher(): SemanticMatcher {
+  if (!sharedMatcher) {
+    sharedMatcher = createSemanticMatcher();
+  }
+  return sharedMatcher;
+}
@@ -0,0 +1,47 @@
+/**
+ * Template Pack Tests
+ * Page text rendered into pack templates must stay delimited like in the built-in templates
+ */
+
+import { PageAnalysis } from '../dom/domAnalyzer';
+import { UNTRUSTED_CONTENT_NOTICE } from './promptSafety';
+import { renderTemplate } from './templatePacks';
+
+const analysis: PageAnalysis = {
+  title: 'Welcome back',
+  description: 'Sign in page',
+  mainFunctionality: 'login',
+  forms: [],
+  inputFields: [],
+  buttons: [{ selector: '#submit', text: 'Sign in', type: 'submit' }],
+  links: [],
+  headings: [],
+  errorElements: [],
+  successElements: [],
+  textElements: [],
+  tables: 2,
+  modals: 0,
+  suggestedScenarios: [],
+};
+
+describe('renderTemplate', () => {
+  test('should wrap page-derived values and start with the untrusted-content notice', () => {
+    const prompt = renderTemplate(
+      'Task: {{instruction}}\nTitle: {{title}}\nButtons: {{buttons}}\nTables: {{tables}}',
+      analysis,
+      'Cover the login form'
+    );
+
+    expect(prompt.startsWith(`${UNTRUSTED_CONTENT_NOTICE}\n\n`)).toBe(true);
+    expect(prompt).toContain('Task: Cover the login form\n');
+    expect(prompt).toContain('Title: <page_data>\nWelcome back\n</page_data>');
+    expect(prompt).toContain('Buttons: <page_data>\nSign in\n</page_data>');
+    expect(prompt).toContain('Tables: 2');
+  });
+
+  test('should leave templates without page data untouched', () => {
+    expect(renderTemplate('Task: {{instruction}} {{unknown}}', analysis, 'Cover login')).toBe(
+      'Task: Cover login {{unknown}}'
+    );
+  });
+});
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PageAnalysis } from '../dom/domAnalyzer';
+import { ValidationError } from '../errors';
+import { PromptTemplate, ScenarioType } from './promptTemplates';
+import { UNTRUSTED_CONTENT_NOTICE, delimitUntrusted } from './promptSafety';
+
+/**
+ * Prompt template packs
+ *
+ * A pack is a JSON file in the templates directory (default ./prompt-templates):
+ *
+ * {
+ *   "name": "my-pack",
+ *   "templates": [
+ *     {
+ *       "type": "negative",              // built-in type to override, or a new type
+ *       "title": "Negative Test Scenarios",
+ *       "description": "Invalid input and error handling",
+ *       "tags": ["@negative"],           // optional, used for new types
+ *       "priority": 8,                   // optional, used for new types
+ *       "prompt": "Generate ... {{instruction}} ... {{inputFields}}"
+ *     }
+ *   ]
+ * }
+ *
+ * "promptFile" (relative to the pack) may be used instead of an inline "prompt".
+ */
+
+export const DEFAULT_TEMPLATES_DIR = 'prompt-templates';
+
+interface TemplatePackEntry {
+  type: string;
+  title?: string;
+  description?: string;
+  tags?: string[];
+  priority?: number;
+  prompt?: string;
+  promptFile?: string;
+}
+
+interface TemplatePack {
+  name?: string;
+  templates: TemplatePackEntry[];
+}
+
+type PlaceholderRenderer = (analysis: PageAnalysis, instruction: string) => string;
+
+const list = (values: Array<string | undefined>): string =>
+  values.filter(Boolean).join(', ') || 'none';
+
+const PLACEHOLDERS: Record<string, PlaceholderRenderer> = {
+  instruction: (_, instruction) => instruction,
+  title: (a) => a.title,
+  description: (a) => a.description,
+  mainFunctionality: (a) => a.mainFunctionality,
+  forms: (a) => list(a.forms.map((f) => f.selector)),
+  formFields: (a) => list((a.forms[0]?.fields || []).map((f) => f.label || f.name)),
+  validationPattern: (a) => a.forms[0]?.validationPattern || 'none',
+  inputFields: (a) => list(a.inputFields.map((f) => f.label || f.name)),
+  requiredFields: (a) =>
+    list(a.inputFields.filter((f) => f.required).map((f) => f.label || f.name)),
+  buttons: (a) => list(a.buttons.map((b) => b.text)),
+  links: (a) => list(a.links.map((l) => l.text)),
+  headings: (a) => list(a.headings.map((h) => h.text)),
+  errorElements: (a) => list(a.errorElements.map((e) => e.description)),
+  successElements: (a) => list(a.successElements.map((e) => e.description)),
+  suggestedScenarios: (a) => list(a.suggestedScenarios),
+  tables: (a) => String(a.tables),
+  modals: (a) => String(a.modals),
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Placeholders that carry no text taken from the page under test */
+const TRUSTED_PLACEHOLDERS = new Set(['instruction', 'tables', 'modals']);
+
+export function getTemplatePlaceholders(): string[] {
+  return Object.keys(PLACEHOLDERS);
+}
+
+/**
+ * Replaces {{placeholder}} tokens with values from the page analysis and instruction.
+ * Page-derived values are wrapped in <page_data> delimiters, and the prompt then starts
+ * with the notice telling the model to treat them as data, as the built-in templates do.
+ */
+export function renderTemplate(
+  template: string,
+  analysis: PageAnalysis,
+  instruction: string
+): string {
+  let hasPageData = false;
+  const rendered = template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const renderer = PLACEHOLDERS[name];
+    if (!renderer) return match;
+    if (TRUSTED_PLACEHOLDERS.has(name)) return renderer(analysis, instruction);
+
+    hasPageData = true;
+    return delimitUntrusted(renderer(analysis, instruction));
+  });
+
+  return hasPageData ? `${UNTRUSTED_CONTENT_NOTICE}\n\n${rendered}` : rendered;
+}
+
+/**
+ * Prompt template backed by a text template from a pack file
+ */
+export class FileTemplate implements PromptTemplate {
+  constructor(
+    readonly type: ScenarioType,
+    readonly title: string,
+    readonly description: string,
+    private readonly template: string,
+    readonly source: string,
+    readonly tags?: string[],
+    readonly priority?: number
+  ) {}
+
+  generatePrompt(analysis: PageAnalysis, userInstruction: string): string {
+    return renderTemplate(this.template, analysis, userInstruction);
+  }
+}
+
+function toFileTemplate(entry: TemplatePackEntry, packPath: string): FileTemplate {
+  if (!entry.type || typeof entry.type !== 'string') {
+    throw new ValidationError(`Template in ${packPath} is missing a "type"`, { packPath });
+  }
+
+  let template = entry.prompt;
+  if (!template && entry.promptFile) {
+    const promptPath = path.resolve(path.dirname(packPath), entry.promptFile);
+    if (!fs.existsSync(promptPath)) {
+      throw new ValidationError(`Prompt file not found: ${promptPath}`, {
+        packPath,
+        type: entry.type,
+      });
+    }
+    template = fs.readFileSync(promptPath, 'utf-8');
+  }
+
+  if (!template) {
+    throw new ValidationError(
+      `Template "${entry.type}" in ${packPath} needs a "prompt" or "promptFile"`,
+      { packPath, type: entry.type }
+    );
+  }
+
+  const unknown = Array.from(template.matchAll(PLACEHOLDER_PATTERN))
+    .map((match) => match[1])
+    .filter((name) => !PLACEHOLDERS[name]);
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Template "${entry.type}" in ${packPath} uses unknown placeholders: ${unknown.join(', ')}. Available: ${getTemplatePlaceholders().join(', ')}`,
+      { packPath, type: entry.type, unknown }
+    );
+  }
+
+  return new FileTemplate(
+    entry.type,
+    entry.title || entry.type,
+    entry.description || `Custom ${entry.type} scenarios`,
+    template,
+    packPath,
+    entry.tags,
+    entry.priority
+  );
+}
+
+/**
+ * Loads every *.json template pack in a directory (sorted by file name, so later
+ * packs override earlier ones for the same type)
+ *
+ * @param dir - Directory containing template packs
+ * @returns Templates found in the packs; empty when the directory does not exist
+ * @throws ValidationError if a pack is malformed
+ */
+export function loadTemplatePacks(dir: string): FileTemplate[] {
+  const packsDir = path.resolve(dir);
+  if (!fs.existsSync(packsDir)) {
+    return [];
+  }
+
+  const templates: FileTemplate[] = [];
+  const packFiles = fs
+    .readdirSync(packsDir)
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+
+  for (const file of packFiles) {
+    const packPath = path.join(packsDir, file);
+    let pack: TemplatePack;
+    try {
+      pack = JSON.parse(fs.readFileSync(packPath, 'utf-8'));
+    } catch (error) {
+      throw new ValidationError(
+        `Invalid template pack ${packPath}: ${error instanceof Error ? error.message : error}`,
+        { packPath }
+      );
+    }
+
+    if (!Array.isArray(pack.templates)) {
+      throw new ValidationError(`Template pack ${packPath} must contain a "templates" array`, {
+        packPath,
+      });
+    }
+
+    templates.push(...pack.templates.map((entry) => toFileTemplate(entry, packPath)));
+  }
+
+  return templates;
+}
@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CacheEntry } from './domCache';
+
+export interface LlmResponseCacheOptions {
+  dir: string;
+  ttlMs: number;
+  maxSizeBytes: number;
+}
+
+export interface LlmCacheKeyParts {
+  /** Provider type and server, so two servers serving the same model name do not share entries */
+  provider: string;
+  baseUrl: string;
+  model: string;
+  prompt: string;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Persistent cache of LLM responses, one JSON file per prompt under .cache/llm.
+ * Entries expire after ttlMs; when the directory grows past maxSizeBytes the least
+ * recently used entries are evicted.
+ */
+export class LlmResponseCache {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly options: LlmResponseCacheOptions) {}
+
+  /**
+   * Builds the cache key from the server, model, generation options and the prompt with
+   * whitespace normalized, so reformatting a template does not bust the cache
+   */
+  static buildKey(parts: LlmCacheKeyParts): string {
+    const normalizedPrompt = parts.prompt.replace(/\s+/g, ' ').trim();
+    const sortedOptions = Object.keys(parts.options)
+      .sort()
+      .filter((key) => parts.options[key] !== undefined)
+      .map((key) => `${key}=${JSON.stringify(parts.options[key])}`)
+      .join('&');
+
+    return crypto
+      .createHash('sha256')
+      .update(
+        `${parts.provider}\n${parts.baseUrl}\n${parts.model}\n${sortedOptions}\n${normalizedPrompt}`
+      )
+      .digest('hex');
+  }
+
+  get(key: string): string | null {
+    const cachePath = this.getEntryPath(key);
+
+    try {
+      if (!fs.existsSync(cachePath)) {
+        this.misses++;
+        return null;
+      }
+
+      const cached = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as CacheEntry<string>;
+
+      if (Date.now() - cached.timestamp >= this.options.ttlMs) {
+        fs.unlinkSync(cachePath);
+        this.misses++;
+        return null;
+      }
+
+      // Touch the file so eviction keeps recently used entries
+      const now = new Date();
+      fs.utimesSync(cachePath, now, now);
+      this.hits++;
+      return cached.data;
+    } catch {
+      this.misses++;
+      return null;
+    }
+  }
+
+  set(key: string, response: string): void {
+    try {
+      if (!fs.existsSync(this.options.dir)) {
+        fs.mkdirSync(this.options.dir, { recursive: true });
+      }
+
+      const cacheEntry: CacheEntry<string> = {
+        timestamp: Date.now(),
+        data: response,
+        hash: key,
+      };
+
+      fs.writeFileSync(this.getEntryPath(key), JSON.stringify(cacheEntry), 'utf-8');
+      this.enforceSizeCap();
+    } catch (error) {
+      // Caching is an optimisation; never fail generation because of it
+      console.warn('Failed to cache LLM response:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.options.dir)) {
+      fs.rmSync(this.options.dir, { recursive: true });
+    }
+  }
+
+  getStats(): { hits: number; misses: number; entries: number; totalSize: number } {
+    const files = this.listEntries();
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: files.length,
+      totalSize: files.reduce((sum, file) => sum + file.size, 0),
+    };
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.options.dir, `${key}.json`);
+  }
+
+  private listEntries(): Array<{ filePath: string; size: number; lastUsed: number }> {
+    if (!fs.existsSync(this.options.dir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.options.dir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => {
+        const filePath = path.join(this.options.dir, file);
+        const stats = fs.statSync(filePath);
+        return { filePath, size: stats.size, lastUsed: stats.mtimeMs };
+      });
+  }
+
+  private enforceSizeCap(): void {
+    const entries = this.listEntries();
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    if (totalSize <= this.options.maxSizeBytes) {
+      return;
+    }
+
+    entries.sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of entries) {
+      if (totalSize <= this.options.maxSizeBytes) break;
+      fs.unlinkSync(entry.filePath);
+      totalSize -= entry.size;
+    }
+  }
+}
@@ -14,8 +14,9 @@ export const RETRY_CONFIG = {
 };
 
 export const DOM_CONFIG = {
-  MAX_DOM_LENGTH: 5000,
-  TRUNCATION_MESSAGE: '\n<!-- ...truncated... -->',
+  DEFAULT_TOKEN_BUDGET: 1500,
+  MAX_REGION_TOKENS: 400,
+  OMITTED_MARKER: '<!-- ...irrelevant regions omitted... -->',
 };
 
 export const OLLAMA_CONFIG = {
@@ -0,0 +1,182 @@
+import { load, CheerioAPI } from 'cheerio';
+import { extractHeadings, extractInputFields } from './domAnalyzer';
+
+export type AccessibilityRule =
+  | 'missing-label'
+  | 'missing-alt'
+  | 'unnamed-button'
+  | 'heading-skip'
+  | 'duplicate-id';
+
+export interface AccessibilityViolation {
+  rule: AccessibilityRule;
+  selector: string;
+  message: string;
+}
+
+/**
+ * Steps that assert a page is free of violations, e.g. "the page should have no
+ * accessibility violations"
+ */
+export const ACCESSIBILITY_STEP = /\bno (?:accessibility|a11y) (?:violations|issues|errors)\b/i;
+
+/** Inputs that are named by their value or are not announced as form fields */
+const UNLABELED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+
+/**
+ * Offline accessibility rule checker
+ *
+ * Checks page markup against a small set of WCAG rules that need no rendering: form fields
+ * without a label, images without alt text, buttons without an accessible name, skipped
+ * heading levels and duplicate IDs. Works on an HTML string, a loaded cheerio document or
+ * the live page source (`await browser.getPageSource()`).
+ */
+export class AccessibilityChecker {
+  check(source: string | CheerioAPI): AccessibilityViolation[] {
+    const $ = typeof source === 'string' ? load(source) : source;
+    return [
+      ...this.checkLabels($),
+      ...this.checkImages($),
+      ...this.checkButtons($),
+      ...this.checkHeadings($),
+      ...this.checkDuplicateIds($),
+    ];
+  }
+
+  formatViolations(violations: AccessibilityViolation[]): string {
+    return violations
+      .map((violation) => `[${violation.rule}] ${violation.selector}: ${violation.message}`)
+      .join('\n');
+  }
+
+  /**
+   * Throws with every violation listed, for use in generated step definitions
+   */
+  assertNoViolations(source: string | CheerioAPI): void {
+    const violations = this.check(source);
+    if (violations.length > 0) {
+      throw new Error(
+        `${violations.length} accessibility violation(s):\n${this.formatViolations(violations)}`
+      );
+    }
+  }
+
+  private checkLabels($: CheerioAPI): AccessibilityViolation[] {
+    return extractInputFields($)
+      .filter((field) => !UNLABELED_INPUT_TYPES.has(field.type))
+      .filter((field) => {
+        const $field = $(field.selector).first();
+        return (
+          !field.label &&
+          !this.hasAriaName($, $field) &&
+          !$field.attr('title')?.trim() &&
+          $field.closest('label').length === 0
+        );
+      })
+      .map((field) => ({
+        rule: 'missing-label' as const,
+        selector: field.selector,
+        message: `${field.type} field "${field.name}" has no label${
+          field.placeholder ? ' (a placeholder is not a label)' : ''
+        }`,
+      }));
+  }
+
+  private checkImages($: CheerioAPI): AccessibilityViolation[] {
+    return $('img, input[type="image"]')
+      .toArray()
+      .filter((image) => {
+        const $image = $(image);
+        return (
+          $image.attr('alt') === undefined &&
+          !this.hasAriaName($, $image) &&
+          !['presentation', 'none'].includes($image.attr('role') || '')
+        );
+      })
+      .map((image) => ({
+        rule: 'missing-alt' as const,
+        selector: this.describe($, image),
+        message: 'image has no alt text (use alt="" for decorative images)',
+      }));
+  }
+
+  private checkButtons($: CheerioAPI): AccessibilityViolation[] {
+    return $('button, [role="button"], input[type="button"]')
+      .toArray()
+      .filter((button) => {
+        const $button = $(button);
+        const name =
+          $button.text().trim() ||
+          $button.attr('value')?.trim() ||
+          $button.attr('title')?.trim() ||
+          $button.find('img[alt]').attr('alt')?.trim();
+        return !name && !this.hasAriaName($, $button);
+      })
+      .map((button) => ({
+        rule: 'unnamed-button' as const,
+        selector: this.describe($, button),
+        message: 'button has no accessible name (text, aria-label or title)',
+      }));
+  }
+
+  /**
+   * A heading level used without the level above it, e.g. h4 on a page with h2 but no h3
+   */
+  private checkHeadings($: CheerioAPI): AccessibilityViolation[] {
+    const headings = extractHeadings($);
+    const levels = Array.from(new Set(headings.map((heading) => heading.level))).sort(
+      (a, b) => a - b
+    );
+
+    return levels.slice(1).flatMap((level, index) => {
+      if (level - levels[index] <= 1) return [];
+      const heading = headings.find((h) => h.level === level)!;
+      return [
+        {
+          rule: 'heading-skip' as const,
+          selector: heading.selector,
+          message: `h${level} "${heading.text}" skips from h${levels[index]} (no h${level - 1} on the page)`,
+        },
+      ];
+    });
+  }
+
+  private checkDuplicateIds($: CheerioAPI): AccessibilityViolation[] {
+    const counts = new Map<string, number>();
+    $('[id]').each((_, element) => {
+      const id = $(element).attr('id') || '';
+      if (id) counts.set(id, (counts.get(id) || 0) + 1);
+    });
+
+    return Array.from(counts)
+      .filter(([, count]) => count > 1)
+      .map(([id, count]) => ({
+        rule: 'duplicate-id' as const,
+        selector: `#${id}`,
+        message: `id "${id}" is used by ${count} elements`,
+      }));
+  }
+
+  private hasAriaName($: CheerioAPI, $element: ReturnType<CheerioAPI>): boolean {
+    if ($element.attr('aria-label')?.trim()) return true;
+    const labelledBy = $element.attr('aria-labelledby')?.trim();
+    return Boolean(
+      labelledBy && labelledBy.split(/\s+/).some((id) => $(`[id="${id}"]`).text().trim().length > 0)
+    );
+  }
+
+  private describe($: CheerioAPI, element: Parameters<CheerioAPI>[0]): string {
+    const $element = $(element);
+    const tag = $element.prop('tagName')?.toLowerCase() || 'element';
+    const id = $element.attr('id');
+    const name = $element.attr('name');
+    const src = $element.attr('src');
+    if (id) return `#${id}`;
+    if (name) return `${tag}[name="${name}"]`;
+    if (src) return `${tag}[src="${src}"]`;
+    const className = $element.attr('class')?.trim().split(/\s+/)[0];
+    return className ? `${tag}.${className}` : tag;
+  }
+}
+
+export const accessibilityChecker = new AccessibilityChecker();
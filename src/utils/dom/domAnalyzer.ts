@@ -175,7 +175,10 @@ function extractForms($: any): FormInfo[] {
   return forms;
 }
 
-function extractInputFields($: any): FormField[] {
+/**
+ * Every input, textarea and select with an id or name, with its label
+ */
+export function extractInputFields($: any): FormField[] {
   const fields: FormField[] = [];
   const seen = new Set<string>();
 
@@ -305,7 +308,10 @@ function extractLinks($: any): Array<{ selector: string; text: string; href: str
   return links;
 }
 
-function extractHeadings($: any): Array<{ selector: string; level: number; text: string }> {
+/**
+ * Headings grouped by level (h1 first), not in document order
+ */
+export function extractHeadings($: any): Array<{ selector: string; level: number; text: string }> {
   const headings: Array<{ selector: string; level: number; text: string }> = [];
   const seen = new Set<string>();
 
@@ -638,7 +644,10 @@ function inferMainFunctionality(
   return 'General web page';
 }
 
-function generateSuggestedScenarios(
+/**
+ * Scenario types worth testing for the given forms, fields and buttons
+ */
+export function generateSuggestedScenarios(
   forms: FormInfo[],
   inputFields: FormField[],
   buttons: Array<any>,
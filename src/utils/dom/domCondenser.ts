@@ -0,0 +1,235 @@
+import { load, CheerioAPI } from 'cheerio';
+import { DOM_CONFIG } from '../constants';
+import { getConfig } from '../../config';
+
+export interface CondenseOptions {
+  /** Step text or user instruction used to rank page regions */
+  query?: string;
+  /** Maximum size of the condensed DOM, in estimated tokens */
+  tokenBudget?: number;
+  /** Regions larger than this are split into their children before ranking */
+  maxRegionTokens?: number;
+}
+
+interface DomRegion {
+  index: number;
+  html: string;
+  tokens: number;
+  score: number;
+}
+
+const NOISE_SELECTORS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'link',
+  'meta',
+  'iframe',
+  'canvas',
+  'svg *',
+  'input[type="hidden"]',
+  '[hidden]',
+  '[aria-hidden="true"]',
+  '[style*="display:none"]',
+  '[style*="display: none"]',
+  '[style*="visibility:hidden"]',
+  '[style*="visibility: hidden"]',
+];
+
+const KEPT_ATTRIBUTES = new Set([
+  'id',
+  'name',
+  'class',
+  'type',
+  'role',
+  'href',
+  'for',
+  'value',
+  'placeholder',
+  'title',
+  'alt',
+  'action',
+  'method',
+  'required',
+  'disabled',
+  'checked',
+  'selected',
+  'pattern',
+  'minlength',
+  'maxlength',
+  'min',
+  'max',
+]);
+
+const INTERACTIVE_SELECTOR =
+  'form, input, textarea, select, button, a[href], [role="button"], [role="alert"]';
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'with',
+  'that',
+  'this',
+  'should',
+  'user',
+  'page',
+  'test',
+  'when',
+  'then',
+  'given',
+  'into',
+  'from',
+  'are',
+  'can',
+]);
+
+/**
+ * Rough token estimate (~4 characters per token for English text and markup)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function extractTerms(query: string): string[] {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((term) => term.length > 2 && !STOP_WORDS.has(term))
+    )
+  );
+}
+
+function stripNoise($: CheerioAPI): void {
+  $(NOISE_SELECTORS.join(', ')).remove();
+
+  $('*').each((_, el) => {
+    for (const attr of Object.keys($(el).attr() || {})) {
+      const keep =
+        KEPT_ATTRIBUTES.has(attr) || attr.startsWith('aria-') || attr.startsWith('data-test');
+      if (!keep) {
+        $(el).removeAttr(attr);
+      }
+    }
+  });
+
+  // Comments are not matched by '*'; drop them from the whole tree
+  $('*')
+    .contents()
+    .filter((_, node) => node.type === 'comment')
+    .remove();
+}
+
+/**
+ * Splits the page into regions no larger than maxRegionTokens, in document order
+ */
+function collectRegions($: CheerioAPI, maxRegionTokens: number): string[] {
+  const regions: string[] = [];
+
+  const visit = (node: ReturnType<CheerioAPI>): void => {
+    const html = $.html(node).replace(/\s+/g, ' ').trim();
+    if (!html) return;
+
+    const children = node.children();
+    if (estimateTokens(html) <= maxRegionTokens || children.length === 0) {
+      regions.push(html);
+      return;
+    }
+
+    children.each((_, child) => visit($(child)));
+  };
+
+  const topLevel = $('body').length > 0 ? $('body').children() : $.root().children();
+  topLevel.each((_, child) => visit($(child)));
+
+  return regions;
+}
+
+function scoreRegion(html: string, terms: string[]): number {
+  const $ = load(html, null, false);
+  const text = html.toLowerCase();
+  let score = 0;
+
+  for (const term of terms) {
+    if (text.includes(term)) {
+      score += 5;
+    }
+  }
+
+  score += Math.min($(INTERACTIVE_SELECTOR).length, 10);
+
+  if ($('form').length > 0) score += 5;
+  if ($('nav, footer').length > 0 && $('form').length === 0) score -= 3;
+
+  return score;
+}
+
+/**
+ * Condenses page HTML for inclusion in an LLM prompt.
+ *
+ * Strips scripts, styles, SVG paths, hidden nodes and noisy attributes, splits what is
+ * left into regions, ranks them by relevance to the query and keeps the best regions
+ * (in document order) that fit into the token budget.
+ *
+ * @param html - Raw page HTML
+ * @param options - Ranking query and size limits
+ * @returns Condensed HTML no larger than the token budget
+ */
+export function condenseDOM(html: string, options: CondenseOptions = {}): string {
+  const tokenBudget = options.tokenBudget ?? getConfig().generation.domTokenBudget;
+  const maxRegionTokens = Math.min(
+    options.maxRegionTokens ?? DOM_CONFIG.MAX_REGION_TOKENS,
+    tokenBudget
+  );
+
+  const $ = load(html);
+  stripNoise($);
+
+  const terms = extractTerms(options.query || '');
+  const regions: DomRegion[] = collectRegions($, maxRegionTokens).map((regionHtml, index) => ({
+    index,
+    html: regionHtml,
+    tokens: estimateTokens(regionHtml),
+    score: scoreRegion(regionHtml, terms),
+  }));
+
+  const totalTokens = regions.reduce((sum, region) => sum + region.tokens, 0);
+  if (totalTokens <= tokenBudget) {
+    return regions.map((region) => region.html).join('\n');
+  }
+
+  const selected: DomRegion[] = [];
+  let used = 0;
+  const markerTokens = estimateTokens(DOM_CONFIG.OMITTED_MARKER);
+
+  for (const region of [...regions].sort((a, b) => b.score - a.score || a.index - b.index)) {
+    if (used + region.tokens + markerTokens <= tokenBudget) {
+      selected.push(region);
+      used += region.tokens + markerTokens;
+    }
+  }
+
+  selected.sort((a, b) => a.index - b.index);
+
+  const output: string[] = [];
+  let previousIndex = -1;
+  for (const region of selected) {
+    if (region.index !== previousIndex + 1) {
+      output.push(DOM_CONFIG.OMITTED_MARKER);
+    }
+    output.push(region.html);
+    previousIndex = region.index;
+  }
+  if (previousIndex !== regions.length - 1) {
+    output.push(DOM_CONFIG.OMITTED_MARKER);
+  }
+
+  console.log(
+    `✂️ DOM condensed from ~${totalTokens} to ~${used} tokens (${selected.length}/${regions.length} regions)`
+  );
+
+  return output.join('\n');
+}
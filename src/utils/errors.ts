@@ -63,3 +63,19 @@ export class HealingError extends AiFrameworkError {
     Object.setPrototypeOf(this, HealingError.prototype);
   }
 }
+
+export class CassetteMissError extends AiFrameworkError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'CASSETTE_MISS', context);
+    this.name = 'CassetteMissError';
+    Object.setPrototypeOf(this, CassetteMissError.prototype);
+  }
+}
+
+export class ModelVerificationError extends AiFrameworkError {
+  constructor(message: string, context?: Record<string, unknown>) {
+    super(message, 'MODEL_VERIFICATION_ERROR', context);
+    this.name = 'ModelVerificationError';
+    Object.setPrototypeOf(this, ModelVerificationError.prototype);
+  }
+}
@@ -2,8 +2,13 @@ import { browser, $ } from '@wdio/globals';
 import { readFileSync, writeFileSync } from 'fs';
 import * as path from 'path';
 import { createOllamaClient } from '../ai/ollamaClient';
+import { JsonSchema } from '../ai/jsonSchema';
+import { UNTRUSTED_CONTENT_NOTICE, checkOutputFormat, delimitUntrusted } from '../ai/promptSafety';
+import { getPromptTelemetry } from '../ai/promptTelemetry';
 import { analyzeDOM } from '../dom/domAnalyzer';
 import { discoverElementsFromDOM, DiscoveredElement } from '../dom/discoverElementsFromDOM';
+import { codeSafetyScanner } from '../test-gen/codeSafetyScanner';
+import { getSemanticMatcher, stripStepSubject } from '../ai/semanticMatcher';
 
 export interface HealingContext {
   stepText: string;
@@ -22,6 +27,25 @@ export interface HealingResult {
   retryable: boolean;
 }
 
+/** Minimum similarity for a semantic match to be trusted without the model */
+const SEMANTIC_MATCH_THRESHOLD = 0.35;
+
+interface HealingFix {
+  selector: string;
+  reason: string;
+  elementType: 'input' | 'button' | 'text' | 'heading' | 'link' | 'other';
+}
+
+const HEALING_FIX_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    selector: { type: 'string', minLength: 1, description: 'CSS selector for the element' },
+    reason: { type: 'string', description: 'One line explanation' },
+    elementType: { type: 'string', enum: ['input', 'button', 'text', 'heading', 'link', 'other'] },
+  },
+  required: ['selector', 'reason', 'elementType'],
+};
+
 class SelfHealingService {
   private maxHealingAttempts = 2;
   private healingCache = new Map<string, HealingResult>();
@@ -115,79 +139,74 @@ class SelfHealingService {
 "${context.stepText}"
 
 **Error Type:** ${context.errorType}
-**Error Message:** ${context.errorMessage}
+**Error Message:** ${delimitUntrusted(context.errorMessage)}
 ${context.failedElement ? `**Failed Element:** ${context.failedElement}` : ''}
 
+${UNTRUSTED_CONTENT_NOTICE}
+
 **Current Page Analysis:**
-- Title: ${pageAnalysis.title}
+${delimitUntrusted(`- Title: ${pageAnalysis.title}
 - Buttons: ${pageAnalysis.buttons.length}
 - Links: ${pageAnalysis.links.length}
 - Input Fields: ${pageAnalysis.inputFields.length}
-- Headings: ${pageAnalysis.headings.length}
+- Headings: ${pageAnalysis.headings.length}`)}
 
 **Available Elements on Current Page:**
-${elementsSummary}
+${delimitUntrusted(elementsSummary)}
 
 **Task:**
 1. Identify which element on the current page matches the step intent
 2. Provide a CSS selector that will find it
 3. If the element doesn't exist, suggest the closest alternative
-4. Return ONLY valid CSS selectors, no explanations
-
-**Response format (ONLY CSS selector, no markdown, no code blocks):**
-SELECTOR: your-css-selector-here
-REASON: one line explanation
-ELEMENT_TYPE: input|button|text|heading|link|other`;
+4. Return ONLY valid CSS selectors in the selector field (no markdown, no code blocks)`;
 
     try {
-      const response = await ollamaClient.prompt({
-        prompt,
-        systemPrompt:
-          'You are a test automation expert specializing in CSS selectors and WebdriverIO.',
+      const healingPrompt = `You are a test automation expert specializing in CSS selectors and WebdriverIO.\n${prompt}`;
+      const fix = await ollamaClient.generateStructured<HealingFix>(
+        healingPrompt,
+        HEALING_FIX_SCHEMA,
+        { temperature: 0.4, max_tokens: 800, priority: 'healing', promptType: 'healing-fix' }
+      );
+
+      const issues = checkOutputFormat(fix.selector, 'selector');
+      getPromptTelemetry()?.recordValidation('healing-fix', healingPrompt, {
+        passed: issues.length === 0,
+        issues,
       });
+      if (issues.length > 0) {
+        console.warn(`⚠️ Rejected healing selector from Ollama: ${issues.join('; ')}`);
+        return await this.tryFallbackHealing(context, discoveredElements, pageAnalysis);
+      }
 
-      return this.parseHealingResponse(response, context);
+      return this.toHealingResult(fix);
     } catch (error) {
       console.warn(`⚠️ Ollama healing failed: ${error instanceof Error ? error.message : error}`);
       // If Ollama fails, try fallback healing
-      return this.tryFallbackHealing(context, discoveredElements, pageAnalysis);
+      return await this.tryFallbackHealing(context, discoveredElements, pageAnalysis);
     }
   }
 
   /**
-   * Parse Ollama response
+   * Convert the structured Ollama fix into a healing result
    */
-  private parseHealingResponse(response: string, context: HealingContext): HealingResult {
-    const selectorMatch = response.match(/SELECTOR:\s*(.+?)(?:\n|$)/i);
-    const reasonMatch = response.match(/REASON:\s*(.+?)(?:\n|$)/i);
-
-    if (!selectorMatch || !selectorMatch[1]) {
-      return {
-        healed: false,
-        reason: 'Ollama could not identify selector',
-        retryable: false,
-      };
-    }
-
-    const selector = selectorMatch[1].trim();
-    const reason = reasonMatch ? reasonMatch[1].trim() : 'Selector regenerated from DOM analysis';
-
+  private toHealingResult(fix: HealingFix): HealingResult {
     return {
       healed: true,
-      newSelector: selector,
-      reason,
+      newSelector: fix.selector.trim(),
+      reason: fix.reason.trim() || 'Selector regenerated from DOM analysis',
       retryable: true,
     };
   }
 
   /**
-   * Fallback healing when Ollama is unavailable
+   * Fallback healing when Ollama is unavailable: keyword rules first, then a semantic match
+   * of the step against the discovered elements
    */
-  private tryFallbackHealing(
+  private async tryFallbackHealing(
     context: HealingContext,
     discoveredElements: DiscoveredElement[],
     pageAnalysis: any
-  ): HealingResult {
+  ): Promise<HealingResult> {
     const stepLower = context.stepText.toLowerCase();
 
     // Try to match step intent with discovered elements
@@ -253,7 +272,16 @@ ELEMENT_TYPE: input|button|text|heading|link|other`;
       stepLower.includes('text') ||
       stepLower.includes('error')
     ) {
-      // Try success message elements
+      // Error steps try error elements first, other messages success elements first
+      const errorEl = pageAnalysis.errorElements[0];
+      if (errorEl && stepLower.includes('error')) {
+        return {
+          healed: true,
+          newSelector: errorEl.selector,
+          reason: 'Matched error message element',
+          retryable: true,
+        };
+      }
       const successEl = pageAnalysis.successElements[0];
       if (successEl) {
         return {
@@ -263,8 +291,6 @@ ELEMENT_TYPE: input|button|text|heading|link|other`;
           retryable: true,
         };
       }
-      // Try error elements
-      const errorEl = pageAnalysis.errorElements[0];
       if (errorEl) {
         return {
           healed: true,
@@ -275,6 +301,21 @@ ELEMENT_TYPE: input|button|text|heading|link|other`;
       }
     }
 
+    // Steps the rules above do not cover: semantic match against the discovered elements
+    const [bestMatch] = await getSemanticMatcher().rankElements(
+      [context.failedElement, stripStepSubject(context.stepText)].filter(Boolean).join(' '),
+      discoveredElements,
+      { limit: 1, minScore: SEMANTIC_MATCH_THRESHOLD }
+    );
+    if (bestMatch) {
+      return {
+        healed: true,
+        newSelector: bestMatch.item.selector,
+        reason: `Semantic match for step (score ${bestMatch.score.toFixed(2)})`,
+        retryable: true,
+      };
+    }
+
     return {
       healed: false,
       reason: 'No matching element found in fallback healing',
@@ -324,6 +365,19 @@ ELEMENT_TYPE: input|button|text|heading|link|other`;
   private async updateStepDefinition(stepText: string, newImplementation: string): Promise<void> {
     const stepsPath = path.resolve('src/step-definitions/generatedSteps.ts');
 
+    const scan = codeSafetyScanner.scan(newImplementation);
+    if (!scan.safe) {
+      const quarantinePath = codeSafetyScanner.quarantine(
+        stepText,
+        newImplementation,
+        scan.violations
+      );
+      console.warn(`🛡️ Rejected unsafe healed implementation for "${stepText}":`);
+      console.warn(codeSafetyScanner.formatViolations(scan.violations).replace(/^/gm, '   '));
+      console.warn(`   → Quarantined to ${quarantinePath}`);
+      return;
+    }
+
     try {
       let content = readFileSync(stepsPath, 'utf-8');
 
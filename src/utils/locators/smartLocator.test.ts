@@ -24,7 +24,7 @@ describe('SmartLocator', () => {
         ariaLabel: 'Send Form',
       };
 
-      const strategies = (smartLocator as any).generateLocatorStrategies(description, 'test');
+      const strategies = await (smartLocator as any).generateLocatorStrategies(description, 'test');
 
       expect(strategies.length).toBeGreaterThan(0);
       expect(strategies.some((s) => s.type === 'text')).toBe(true);
@@ -33,7 +33,7 @@ describe('SmartLocator', () => {
 
     test('should prioritize ID selector highest', async () => {
       const description: ElementDescription = { text: 'Button' };
-      const strategies = (smartLocator as any).generateLocatorStrategies(description, 'test');
+      const strategies = await (smartLocator as any).generateLocatorStrategies(description, 'test');
 
       const idStrategy = strategies.find((s) => s.type === 'id');
       expect(idStrategy?.priority).toBeGreaterThan(90);
@@ -41,7 +41,7 @@ describe('SmartLocator', () => {
 
     test('should handle missing attributes gracefully', async () => {
       const description: ElementDescription = { text: 'Button' };
-      const strategies = (smartLocator as any).generateLocatorStrategies(description, 'test');
+      const strategies = await (smartLocator as any).generateLocatorStrategies(description, 'test');
 
       expect(strategies.length).toBeGreaterThan(0);
       expect(strategies.every((s) => s.selector)).toBe(true);
@@ -128,7 +128,7 @@ describe('SmartLocator', () => {
 
       expect(selector).toContain('Search');
       expect(selector).toContain('searchbox');
-      expect(selector).toContain('xpath');
+      expect(selector).toMatch(/^\/\//);
     });
 
     test('should generate fuzzy XPath', () => {
@@ -140,7 +140,7 @@ describe('SmartLocator', () => {
       const selector = (smartLocator as any).generateFuzzyXPath(desc);
 
       expect(selector).toContain('normalize-space');
-      expect(selector).toContain('xpath') || expect(selector).toContain('//');
+      expect(selector).toMatch(/^\/\//);
     });
   });
 
@@ -152,7 +152,7 @@ describe('SmartLocator', () => {
         ariaLabel: 'Save',
       };
 
-      const strategies = (smartLocator as any).generateLocatorStrategies(description, 'test');
+      const strategies = await (smartLocator as any).generateLocatorStrategies(description, 'test');
 
       for (let i = 0; i < strategies.length - 1; i++) {
         expect(strategies[i].priority).toBeGreaterThanOrEqual(strategies[i + 1].priority);
@@ -164,7 +164,7 @@ describe('SmartLocator', () => {
     test('should handle empty element description', async () => {
       const description: ElementDescription = {};
 
-      const strategies = (smartLocator as any).generateLocatorStrategies(description, 'test');
+      const strategies = await (smartLocator as any).generateLocatorStrategies(description, 'test');
 
       expect(strategies.length).toBeGreaterThan(0);
       expect(strategies.some((s) => s.selector.length > 0)).toBe(true);
@@ -2,10 +2,16 @@ import { browser } from '@wdio/globals';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createOllamaClient } from '../ai/ollamaClient';
+import { JsonSchema } from '../ai/jsonSchema';
+import { UNTRUSTED_CONTENT_NOTICE, checkOutputFormat, delimitUntrusted } from '../ai/promptSafety';
+import { getPromptTelemetry } from '../ai/promptTelemetry';
+import { condenseDOM } from '../dom/domCondenser';
+import { discoverElementsFromDOM } from '../dom/discoverElementsFromDOM';
+import { getSemanticMatcher } from '../ai/semanticMatcher';
 import { logger } from '../logger';
 
 export interface LocatorStrategy {
-  type: 'id' | 'xpath' | 'css' | 'text' | 'aria' | 'testid' | 'role' | 'composite';
+  type: 'id' | 'xpath' | 'css' | 'text' | 'aria' | 'testid' | 'role' | 'composite' | 'semantic';
   selector: string;
   priority: number;
   description?: string;
@@ -29,6 +35,14 @@ export interface ElementDescription {
   className?: string;
 }
 
+const AI_LOCATOR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    selector: { type: 'string', minLength: 1, description: 'CSS or XPath selector' },
+  },
+  required: ['selector'],
+};
+
 /**
  * SmartLocator - Intelligent element finding with multiple strategies
  * Features:
@@ -203,7 +217,13 @@ export class SmartLocator {
       description: 'Fuzzy XPath for DOM resilience',
     });
 
-    // 10. AI-powered if enabled
+    // 10. Semantic match against the elements on the current page
+    const semanticStrategy = await this.generateSemanticLocatorStrategy(desc, context);
+    if (semanticStrategy) {
+      strategies.push(semanticStrategy);
+    }
+
+    // 11. AI-powered if enabled
     if (this.aiEnabled) {
       try {
         const aiStrategy = await this.generateAILocatorStrategy(desc, context);
@@ -219,6 +239,38 @@ export class SmartLocator {
     return strategies;
   }
 
+  /**
+   * Picks the discovered element whose text and attributes best match the description,
+   * so "Sign in" still finds a "Log in" button
+   */
+  private async generateSemanticLocatorStrategy(
+    desc: ElementDescription,
+    context: string
+  ): Promise<LocatorStrategy | null> {
+    try {
+      const phrase = [desc.text, desc.ariaLabel, desc.placeholder, desc.role, desc.type]
+        .filter(Boolean)
+        .join(' ');
+      const elements = discoverElementsFromDOM(await browser.getPageSource());
+      const [bestMatch] = await getSemanticMatcher().rankElements(phrase || context, elements, {
+        limit: 1,
+        minScore: 0.3,
+      });
+
+      if (bestMatch) {
+        return {
+          type: 'semantic',
+          selector: bestMatch.item.selector,
+          priority: 55,
+          description: `Semantic match (score ${bestMatch.score.toFixed(2)})`,
+        };
+      }
+    } catch (e) {
+      logger.debug(`Semantic locator strategy failed: ${e}`);
+    }
+    return null;
+  }
+
   /**
    * Generate AI-powered locator strategy
    */
@@ -229,29 +281,44 @@ export class SmartLocator {
     try {
       const currentDOM = await browser.getPageSource();
       const elementInfo = JSON.stringify(desc, null, 2);
+      const condensedDOM = condenseDOM(currentDOM, {
+        query: `${Object.values(desc).join(' ')} ${context}`,
+      });
 
       const prompt = `Given the following page element description and current DOM structure, provide the most reliable CSS or XPath selector to find this element:
 
+${UNTRUSTED_CONTENT_NOTICE}
+
 Element Description:
-${elementInfo}
+${delimitUntrusted(elementInfo)}
 
-Context: ${context}
+Context:
+${delimitUntrusted(context)}
 
 Current page has these elements. Find the most reliable selector.
+${delimitUntrusted(condensedDOM)}
 
-Respond with ONLY a valid CSS or XPath selector, no explanation. Choose between:
+Choose between:
 1. CSS selector (e.g., '#id', '.class', '[attr="value"]')
-2. XPath selector (e.g., '//button[@class="primary"]')
-
-Best selector:`;
+2. XPath selector (e.g., '//button[@class="primary"]')`;
 
       const ollamaClient = createOllamaClient();
-      const response = await ollamaClient.generateText(prompt, {
-        temperature: 0.3,
-        max_tokens: 100,
-      });
+      const result = await ollamaClient.generateStructured<{ selector: string }>(
+        prompt,
+        AI_LOCATOR_SCHEMA,
+        { temperature: 0.3, max_tokens: 100, promptType: 'locator' }
+      );
 
-      const selector = response.trim().split('\n')[0];
+      const selector = result.selector.trim();
+      const issues = checkOutputFormat(selector, 'selector');
+      getPromptTelemetry()?.recordValidation('locator', prompt, {
+        passed: issues.length === 0,
+        issues,
+      });
+      if (issues.length > 0) {
+        logger.warn(`Rejected AI locator selector: ${issues.join('; ')}`);
+        return null;
+      }
 
       if (
         selector &&
@@ -22,7 +22,8 @@ class Logger {
   private performanceMetrics: Map<string, number[]> = new Map();
 
   constructor(logFile?: string) {
-    this.logFilePath = logFile || path.join(process.cwd(), 'generate_output.log');
+    this.logFilePath =
+      logFile || process.env.LOG_FILE || path.join(process.cwd(), 'generate_output.log');
     try {
       this.initializeLogFile();
       this.fileEnabled = true;
@@ -0,0 +1,116 @@
+import { logger } from '../logger';
+import { scenarioQualityValidator } from './qualityValidator';
+import {
+  GherkinScenario,
+  GherkinStep,
+  formatGherkin,
+  getDialect,
+  isContinuationStep,
+  keywordFor,
+  parseGherkin,
+  stepKeyword,
+} from './gherkinAst';
+
+/**
+ * Lifts preconditions shared by every scenario into a Background block
+ *
+ * Only the leading Given block (Given plus its And/But continuations) is considered, and
+ * only when every scenario starts with the same steps, none of them carries a table or
+ * doc string or an outline placeholder, and every scenario keeps at least one step. The
+ * result is re-validated with scenarioQualityValidator; if it introduces new issues the
+ * original feature is returned unchanged.
+ */
+export class BackgroundExtractor {
+  extract(featureContent: string): string {
+    const { document } = parseGherkin(featureContent);
+    const feature = document?.feature;
+    // A Background already exists, or Rules would scope it differently
+    if (
+      !document ||
+      !feature ||
+      feature.children.some((child) => child.type === 'background' || child.type === 'rule')
+    ) {
+      return featureContent;
+    }
+
+    const scenarios = feature.children.filter(
+      (child): child is GherkinScenario => child.type === 'scenario'
+    );
+    if (scenarios.length < 2 || scenarios.some((scenario) => scenario.steps.length === 0)) {
+      return featureContent;
+    }
+
+    const language = feature.language;
+    const liftable = scenarios.map((scenario) => this.liftableSteps(scenario.steps, language));
+    const [first] = scenarios;
+    let shared = 0;
+    while (
+      scenarios.every(
+        (scenario, index) =>
+          shared < liftable[index] &&
+          shared < scenario.steps.length - 1 &&
+          scenario.steps[shared].text === first.steps[shared].text
+      )
+    ) {
+      shared++;
+    }
+
+    if (shared === 0) {
+      return featureContent;
+    }
+
+    const backgroundSteps = first.steps.slice(0, shared);
+    scenarios.forEach((scenario, index) => {
+      scenario.steps = scenario.steps.slice(shared);
+      // The first remaining step of the Given block becomes the scenario's Given
+      const [next] = scenario.steps;
+      if (shared < liftable[index] && isContinuationStep(next, language)) {
+        scenario.steps[0] = { ...next, keyword: stepKeyword(language, 'given') };
+      }
+    });
+    feature.children.unshift({
+      type: 'background',
+      keyword: keywordFor(language, 'background'),
+      name: '',
+      description: '',
+      steps: backgroundSteps,
+    });
+
+    const extracted = formatGherkin(document);
+    const before = scenarioQualityValidator.validateScenarioContent(featureContent);
+    const after = scenarioQualityValidator.validateScenarioContent(extracted);
+    const newIssues = after.issues.filter((issue) => !before.issues.includes(issue));
+
+    if (newIssues.length > 0) {
+      logger.warn(`Background extraction reverted: ${newIssues.join('; ')}`);
+      return featureContent;
+    }
+
+    logger.debug(`Lifted ${shared} shared step(s) into a Background`);
+    return extracted;
+  }
+
+  /**
+   * Number of leading steps that form the Given block and may be lifted
+   */
+  private liftableSteps(steps: GherkinStep[], language: string): number {
+    const given = getDialect(language).given.filter((keyword) => keyword !== '* ');
+    if (!steps[0] || !given.includes(steps[0].keyword)) {
+      return 0;
+    }
+
+    let liftable = 0;
+    while (
+      liftable < steps.length &&
+      (liftable === 0 || isContinuationStep(steps[liftable], language)) &&
+      !/<[^>]+>/.test(steps[liftable].text) &&
+      !steps[liftable].docString &&
+      !steps[liftable].dataTable
+    ) {
+      liftable++;
+    }
+    return liftable;
+  }
+}
+
+export const backgroundExtractor = new BackgroundExtractor();
@@ -0,0 +1,102 @@
+/**
+ * CodeSafetyScanner Tests
+ * Every known way around the scan must be rejected; ordinary step code must pass
+ */
+
+import { CodeSafetyScanner, SafetyRule } from './codeSafetyScanner';
+
+describe('CodeSafetyScanner', () => {
+  const scanner = new CodeSafetyScanner(['*_URL', 'TEST_*']);
+  const rules = (code: string): SafetyRule[] =>
+    scanner.scan(code).violations.map((violation) => violation.rule);
+
+  test('should pass ordinary step code', () => {
+    const code = `
+      await browser.url(process.env.BASE_URL + '/login');
+      await $('#username').setValue(process.env['TEST_USER'] || 'tomsmith');
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      setInterval(() => console.log('tick'), 1000);
+      const page = require('../pages/loginPage');
+      expect(await $('#flash').getText()).toContain('secure area');
+    `;
+
+    expect(scanner.scan(code)).toEqual({ safe: true, violations: [] });
+  });
+
+  describe('environment access', () => {
+    test.each([
+      ['dotted access', 'const secret = process.env.SECRET;'],
+      ['element access on process', "const secret = process['env'].SECRET;"],
+      ['element access on env', "const secret = process.env['SECRET'];"],
+      ['destructured process', 'const { env } = process; const secret = env.SECRET;'],
+      ['destructured env', 'const { SECRET } = process.env;'],
+      ['aliased process', 'const p = process; const secret = p.env.SECRET;'],
+      ['computed key on process', "const key = 'env'; const secret = process[key].SECRET;"],
+      ['global-qualified process', 'const secret = globalThis.process.env.SECRET;'],
+    ])('should flag %s', (_label, code) => {
+      expect(rules(code)).toContain('process-env');
+    });
+
+    test.each([
+      ['native bindings', "process.binding('spawn_sync');"],
+      ['string-keyed native bindings', "process['binding']('fs');"],
+      ['native addon loading', "process.dlopen(module, '/tmp/addon.node');"],
+      ['signals to other processes', 'process.kill(1);'],
+      ['exiting the runner', 'process.exit(0);'],
+    ])('should flag process members outside the allow-list: %s', (_label, code) => {
+      expect(rules(code)).toContain('process-env');
+    });
+
+    test('should pass allow-listed process members', () => {
+      const code = `
+        const isMac = process.platform === 'darwin' && process.arch === 'arm64';
+        const root = process.cwd();
+        const headless = process.argv.includes('--headless');
+        process.nextTick(() => console.log(process.version, process.uptime()));
+      `;
+
+      expect(scanner.scan(code)).toEqual({ safe: true, violations: [] });
+    });
+  });
+
+  describe('dynamic code', () => {
+    test.each([
+      ['eval', "eval('1 + 1');"],
+      ['indirect eval', "(0, eval)('1 + 1');"],
+      ['aliased eval', "const run = eval; run('1 + 1');"],
+      ['string-keyed global eval', "globalThis['eval']('1 + 1');"],
+      ['new Function', "new Function('return 1')();"],
+      ['Function from window', "window.Function('return 1')();"],
+      ['function constructor', "(() => {}).constructor('return process')();"],
+      ['string-keyed constructor', "[]['constructor']['constructor']('return 1')();"],
+      ['string timer', "setTimeout('doSomething()', 10);"],
+      ['concatenated interval code', "setInterval('tick(' + 1 + ')', 10);"],
+      ['computed global access', "const name = 'ev' + 'al'; globalThis[name]('1');"],
+    ])('should flag %s', (_label, code) => {
+      expect(rules(code)).toContain('dynamic-code');
+    });
+  });
+
+  describe('module loading', () => {
+    test.each([
+      ['mainModule require', "process.mainModule.require('child_process').execSync('id');"],
+      ['module.require', "const fs = module.require('fs');"],
+      ['require.main.require', "require.main.require('fs');"],
+      ['aliased require', "const load = require; load('fs');"],
+      ['computed require', "const name = 'f' + 's'; require(name);"],
+    ])('should flag %s', (_label, code) => {
+      expect(rules(code)).toContain('dynamic-require');
+    });
+
+    test.each([
+      ['vm', "import vm from 'vm';"],
+      ['worker_threads', "import { Worker } from 'node:worker_threads';"],
+      ['http', "const http = require('http');"],
+      ['https', "import * as https from 'https';"],
+      ['dgram', "const dgram = await import('dgram');"],
+      ['child_process', "import { exec } from 'child_process';"],
+    ])('should flag %s', (_label, code) => {
+      expect(rules(code)).toContain('forbidden-module');
+    });
+  });
+});
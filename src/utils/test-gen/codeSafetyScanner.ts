@@ -0,0 +1,323 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as ts from 'typescript';
+
+export type SafetyRule = 'forbidden-module' | 'dynamic-code' | 'dynamic-require' | 'process-env';
+
+export interface SafetyViolation {
+  rule: SafetyRule;
+  message: string;
+  /** Offending source text */
+  snippet: string;
+  /** 1-based line within the scanned code */
+  line: number;
+}
+
+export interface SafetyScanResult {
+  safe: boolean;
+  violations: SafetyViolation[];
+}
+
+/**
+ * Modules generated step code may never load (bare or "node:" prefixed)
+ */
+const FORBIDDEN_MODULES = [
+  ...['child_process', 'fs', 'fs/promises', 'net', 'dgram', 'http', 'https'],
+  ...['vm', 'worker_threads'],
+];
+
+/** Globals that turn strings into code however they are reached */
+const DYNAMIC_CODE_GLOBALS = ['eval', 'Function'];
+
+/** Timers that evaluate a string first argument as code */
+const STRING_TIMERS = ['setTimeout', 'setInterval'];
+
+/**
+ * Environment variables generated code may read; "*" matches any run of characters.
+ * Extend with GENERATED_CODE_ENV_ALLOWLIST (comma separated).
+ */
+const DEFAULT_ENV_ALLOWLIST = ['*_URL', '*_BUTTON', '*_SELECTOR', 'TEST_*', 'HEADLESS', 'BROWSER'];
+
+/**
+ * Members of process generated code may use; anything else (binding, dlopen, kill, exit,
+ * chdir, mainModule, ...) reaches native code, other processes or the test runner itself
+ */
+const PROCESS_MEMBER_ALLOWLIST = [
+  ...['env', 'platform', 'arch', 'version', 'versions', 'argv', 'cwd'],
+  ...['nextTick', 'hrtime', 'uptime'],
+];
+
+export const DEFAULT_QUARANTINE_DIR = 'quarantine';
+
+function toPattern(entry: string): RegExp {
+  const escaped = entry.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+function isForbiddenModule(specifier: string): boolean {
+  return FORBIDDEN_MODULES.includes(specifier.replace(/^node:/, ''));
+}
+
+/**
+ * Name of a property access (`a.b`) or string-keyed element access (`a['b']`)
+ */
+function memberName(node: ts.Node): string | undefined {
+  if (ts.isPropertyAccessExpression(node)) {
+    return node.name.text;
+  }
+  if (ts.isElementAccessExpression(node) && ts.isStringLiteralLike(node.argumentExpression)) {
+    return node.argumentExpression.text;
+  }
+  return undefined;
+}
+
+/**
+ * The object of a member access whose key is not a string literal, e.g. `globalThis[name]`
+ */
+function isComputedAccess(node: ts.Node): node is ts.ElementAccessExpression {
+  return ts.isElementAccessExpression(node) && !ts.isStringLiteralLike(node.argumentExpression);
+}
+
+/**
+ * Identifiers that name a property rather than reference a variable (`a.eval`, `{ eval: 1 }`)
+ */
+function isPropertyName(node: ts.Node): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAccessExpression(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent)) &&
+    parent.name === node
+  );
+}
+
+/**
+ * A string literal, template or concatenation, i.e. code passed as text
+ */
+function isStringExpression(node: ts.Expression): boolean {
+  return (
+    ts.isStringLiteralLike(node) ||
+    ts.isTemplateExpression(node) ||
+    (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.PlusToken)
+  );
+}
+
+/**
+ * Static safety scan of LLM-generated step code
+ *
+ * Generated implementations are parsed with the TypeScript compiler API and rejected if
+ * they load child_process/fs/network/vm/worker modules (also through `.require()` members),
+ * evaluate strings as code (any reference to eval or Function, `.constructor`, string timers)
+ * use process members other than env, platform, argv, cwd and the like (binding, dlopen,
+ * kill, exit, ...) or read environment variables outside the allow-list (also through element access,
+ * destructuring or an alias of process). Rejected code is written to the quarantine
+ * directory for review instead of into the step definitions.
+ */
+export class CodeSafetyScanner {
+  private envAllowList: RegExp[];
+
+  constructor(
+    envAllowList: string[] = [
+      ...DEFAULT_ENV_ALLOWLIST,
+      ...(process.env.GENERATED_CODE_ENV_ALLOWLIST || '')
+        .split(',')
+        .map((name) => name.trim())
+        .filter(Boolean),
+    ],
+    private readonly quarantineDir: string = process.env.GENERATED_CODE_QUARANTINE_DIR ||
+      DEFAULT_QUARANTINE_DIR
+  ) {
+    this.envAllowList = envAllowList.map(toPattern);
+  }
+
+  scan(code: string): SafetyScanResult {
+    const sourceFile = ts.createSourceFile(
+      'generated-step.ts',
+      code,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TS
+    );
+    const violations: SafetyViolation[] = [];
+
+    const report = (node: ts.Node, rule: SafetyRule, message: string) => {
+      const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      violations.push({ rule, message, snippet: node.getText(sourceFile), line: line + 1 });
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (
+        (ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) &&
+        node.moduleSpecifier &&
+        ts.isStringLiteral(node.moduleSpecifier) &&
+        isForbiddenModule(node.moduleSpecifier.text)
+      ) {
+        report(node, 'forbidden-module', `Imports "${node.moduleSpecifier.text}"`);
+      } else if (
+        ts.isImportEqualsDeclaration(node) &&
+        ts.isExternalModuleReference(node.moduleReference) &&
+        ts.isStringLiteral(node.moduleReference.expression) &&
+        isForbiddenModule(node.moduleReference.expression.text)
+      ) {
+        report(node, 'forbidden-module', `Imports "${node.moduleReference.expression.text}"`);
+      } else if (ts.isCallExpression(node)) {
+        this.checkCall(node, report);
+      } else if (
+        DYNAMIC_CODE_GLOBALS.some((name) => this.isGlobalName(node, name)) &&
+        !isPropertyName(node)
+      ) {
+        report(node, 'dynamic-code', 'References eval/Function, which turn strings into code');
+      } else if (memberName(node) === 'constructor') {
+        report(node, 'dynamic-code', 'Reaches a function constructor through .constructor');
+      } else if (memberName(node) === 'require') {
+        report(node, 'dynamic-require', 'Loads modules through a .require member');
+      } else if (
+        ts.isIdentifier(node) &&
+        node.text === 'require' &&
+        !isPropertyName(node) &&
+        !(ts.isCallExpression(node.parent) && node.parent.expression === node)
+      ) {
+        report(node, 'dynamic-require', 'Uses require as a value');
+      } else if (isComputedAccess(node) && this.isGlobalObject(node.expression)) {
+        report(node, 'dynamic-code', 'Accesses a global with a computed key');
+      } else if (this.isGlobalName(node, 'process') && !isPropertyName(node)) {
+        this.checkProcessAccess(node, report);
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return { safe: violations.length === 0, violations };
+  }
+
+  /**
+   * Formats violations for logs and quarantine files, one per line with the snippet
+   */
+  formatViolations(violations: SafetyViolation[]): string {
+    return violations
+      .map((v) => {
+        const snippet = v.snippet.replace(/\s+/g, ' ');
+        return `line ${v.line} [${v.rule}] ${v.message}: ${snippet.length > 120 ? `${snippet.slice(0, 117)}...` : snippet}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Writes rejected code and its violations to the quarantine directory
+   *
+   * @returns Path of the quarantine file
+   */
+  quarantine(label: string, code: string, violations: SafetyViolation[]): string {
+    const dir = path.resolve(this.quarantineDir);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const hash = crypto.createHash('sha1').update(code).digest('hex').slice(0, 12);
+    const filePath = path.join(dir, `step-${hash}.ts.txt`);
+    const header = [
+      `// Quarantined: ${label}`,
+      `// Date: ${new Date().toISOString()}`,
+      ...this.formatViolations(violations)
+        .split('\n')
+        .map((line) => `// ${line}`),
+    ].join('\n');
+
+    fs.writeFileSync(filePath, `${header}\n\n${code}\n`, 'utf-8');
+    return filePath;
+  }
+
+  private checkCall(
+    node: ts.CallExpression,
+    report: (node: ts.Node, rule: SafetyRule, message: string) => void
+  ): void {
+    const [firstArg] = node.arguments;
+
+    if (
+      node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+      this.isGlobalName(node.expression, 'require')
+    ) {
+      if (!firstArg || !ts.isStringLiteralLike(firstArg)) {
+        report(node, 'dynamic-require', 'Loads a module from a computed specifier');
+      } else if (isForbiddenModule(firstArg.text)) {
+        report(node, 'forbidden-module', `Loads "${firstArg.text}"`);
+      }
+    } else if (
+      STRING_TIMERS.some((name) => this.isGlobalName(node.expression, name)) &&
+      firstArg &&
+      isStringExpression(firstArg)
+    ) {
+      report(node, 'dynamic-code', 'Passes a string of code to a timer');
+    }
+  }
+
+  /**
+   * process may only be used for allow-listed members; env reads are checked against the
+   * env allow-list
+   */
+  private checkProcessAccess(
+    node: ts.Node,
+    report: (node: ts.Node, rule: SafetyRule, message: string) => void
+  ): void {
+    const parent = node.parent;
+    if (
+      !(ts.isPropertyAccessExpression(parent) || ts.isElementAccessExpression(parent)) ||
+      parent.expression !== node
+    ) {
+      report(node, 'process-env', 'Uses process as a value (aliased, destructured or passed on)');
+    } else if (isComputedAccess(parent)) {
+      report(parent, 'process-env', 'Accesses process with a computed key');
+    } else {
+      const name = memberName(parent)!;
+      if (!PROCESS_MEMBER_ALLOWLIST.includes(name)) {
+        report(parent, 'process-env', `Uses process.${name}, which is not in the allow-list`);
+      } else if (name === 'env') {
+        this.checkEnvAccess(parent, report);
+      }
+    }
+  }
+
+  private checkEnvAccess(
+    node: ts.Node,
+    report: (node: ts.Node, rule: SafetyRule, message: string) => void
+  ): void {
+    const parent = node.parent;
+    const name =
+      (ts.isPropertyAccessExpression(parent) || ts.isElementAccessExpression(parent)) &&
+      parent.expression === node
+        ? memberName(parent)
+        : undefined;
+
+    if (name === undefined) {
+      report(parent, 'process-env', 'Accesses process.env as a whole or with a computed key');
+    } else if (!this.envAllowList.some((pattern) => pattern.test(name!))) {
+      report(parent, 'process-env', `Reads process.env.${name}, which is not in the allow-list`);
+    }
+  }
+
+  /**
+   * Matches bare globals and their globalThis/global/window-qualified forms, dotted or
+   * string-keyed
+   */
+  private isGlobalName(node: ts.Node, name: string): boolean {
+    if (ts.isIdentifier(node)) {
+      return node.text === name;
+    }
+    return (
+      (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) &&
+      memberName(node) === name &&
+      this.isGlobalObject(node.expression)
+    );
+  }
+
+  private isGlobalObject(expression: ts.Expression): boolean {
+    return (
+      ts.isIdentifier(expression) && ['globalThis', 'global', 'window'].includes(expression.text)
+    );
+  }
+}
+
+export const codeSafetyScanner = new CodeSafetyScanner();
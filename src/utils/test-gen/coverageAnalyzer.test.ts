@@ -0,0 +1,63 @@
+/**
+ * CoverageAnalyzer Tests
+ * Definitions of steps that kept scenarios still use are carried over from the previous file
+ */
+
+import { coverageAnalyzer } from './coverageAnalyzer';
+
+const PREVIOUS_STEPS = `import { Given, When, Then } from "@wdio/cucumber-framework";
+
+/**
+ * AUTO-GENERATED STEP DEFINITIONS
+ */
+
+/**
+ * I am on the login page
+ */
+Given(/^I am on the login page$/, async function () {
+  await browser.url('/login');
+});
+
+/**
+ * I enter "value" as remember me
+ */
+When(/^I enter "([^"]*)" as remember me$/, async function (value) {
+  await $('#remember').setValue(value);
+});
+
+Then('I should see {string}', async function (message) {
+  await expect($('#flash')).toHaveText(message);
+});
+`;
+
+describe('CoverageAnalyzer.extractStepDefinitions', () => {
+  test('should return the matching definitions with their own doc comment', () => {
+    expect(
+      coverageAnalyzer.extractStepDefinitions(PREVIOUS_STEPS, ['I enter "yes" as remember me'])
+    ).toEqual([
+      `/**
+ * I enter "value" as remember me
+ */
+When(/^I enter "([^"]*)" as remember me$/, async function (value) {
+  await $('#remember').setValue(value);
+});`,
+    ]);
+  });
+
+  test('should match Cucumber expressions and keep file order', () => {
+    const definitions = coverageAnalyzer.extractStepDefinitions(PREVIOUS_STEPS, [
+      'I should see "Welcome"',
+      'I am on the login page',
+    ]);
+
+    expect(definitions.map((definition) => definition.split('(')[0].trim())).toEqual([
+      '/**\n * I am on the login page\n */\nGiven',
+      'Then',
+    ]);
+  });
+
+  test('should return nothing without a previous file or matching steps', () => {
+    expect(coverageAnalyzer.extractStepDefinitions('', ['I am on the login page'])).toEqual([]);
+    expect(coverageAnalyzer.extractStepDefinitions(PREVIOUS_STEPS, ['I log out'])).toEqual([]);
+  });
+});
@@ -0,0 +1,488 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { PageAnalysis, generateSuggestedScenarios } from '../dom/domAnalyzer';
+import { stripStepSubject, tokenizeForMatching } from '../ai/semanticMatcher';
+import { GherkinScenario, GherkinStep, parseGherkin } from './gherkinAst';
+
+export type CoverageElementKind = 'input' | 'button' | 'link' | 'error';
+
+export interface PageObjectGetter {
+  name: string;
+  /** Selector passed to $() in the getter, if it is a string literal */
+  selector?: string;
+  file: string;
+}
+
+export interface StepDefinitionInfo {
+  keyword: string;
+  pattern: RegExp;
+  /** Page-object getters referenced in the implementation */
+  getters: string[];
+}
+
+export interface ScenarioRef {
+  feature: string;
+  scenario: string;
+}
+
+export interface CoverageEntry {
+  kind: CoverageElementKind;
+  name: string;
+  selector: string;
+  getters: string[];
+  /** Feature steps that reach the element through a getter or mention it by name */
+  steps: string[];
+  scenarios: ScenarioRef[];
+  covered: boolean;
+}
+
+export interface GetterCoverage extends PageObjectGetter {
+  steps: string[];
+  scenarios: ScenarioRef[];
+}
+
+export interface CoverageReport {
+  generatedAt: string;
+  page: { title: string; mainFunctionality: string };
+  scenarios: ScenarioRef[];
+  elements: CoverageEntry[];
+  getters: GetterCoverage[];
+  /** Feature steps no step definition matches */
+  unmatchedSteps: string[];
+  summary: { elements: number; covered: number; percent: number };
+  /** Scenario types from generateSuggestedScenarios for the untested elements */
+  suggestions: string[];
+}
+
+export interface CoverageSources {
+  featureFiles: string[];
+  pageObjectFiles: string[];
+  stepDefinitionFiles: string[];
+}
+
+export const DEFAULT_COVERAGE_DIR = 'reports/coverage';
+
+interface UsedStep {
+  text: string;
+  scenario: ScenarioRef;
+  getters: string[];
+  tokens: Set<string>;
+}
+
+const STEP_FUNCTIONS = ['Given', 'When', 'Then'];
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Element-to-scenario coverage
+ *
+ * Page-object getters and step definitions are read with the TypeScript compiler API,
+ * feature files with the Gherkin parser. Each feature step is matched to its step
+ * definition to find the getters it touches; a PageAnalysis element is covered when a
+ * getter with its selector is used, or a step names it (label, text or field name).
+ */
+export class CoverageAnalyzer {
+  analyze(analysis: PageAnalysis, sources: CoverageSources): CoverageReport {
+    const getters = sources.pageObjectFiles.flatMap((file) => this.readGetters(file));
+    const getterNames = new Set(getters.map((getter) => getter.name));
+    const definitions = sources.stepDefinitionFiles.flatMap((file) =>
+      this.readStepDefinitions(file, getterNames)
+    );
+
+    const scenarios: ScenarioRef[] = [];
+    const usedSteps: UsedStep[] = [];
+    const unmatchedSteps = new Set<string>();
+
+    for (const file of sources.featureFiles) {
+      for (const { scenario, steps } of this.readScenarios(file)) {
+        const ref = { feature: path.basename(file), scenario: scenario.name };
+        scenarios.push(ref);
+        for (const step of steps) {
+          const matching = definitions.filter((definition) => definition.pattern.test(step.text));
+          if (matching.length === 0) unmatchedSteps.add(step.text);
+          usedSteps.push({
+            text: step.text,
+            scenario: ref,
+            getters: Array.from(new Set(matching.flatMap((definition) => definition.getters))),
+            tokens: new Set(tokenizeForMatching(stripStepSubject(step.text))),
+          });
+        }
+      }
+    }
+
+    const elements: CoverageEntry[] = [
+      ...analysis.inputFields.map((field) => ({
+        kind: 'input' as const,
+        selector: field.selector,
+        name: field.label || field.name || field.placeholder || field.selector,
+        terms: [field.name, field.label, field.placeholder],
+      })),
+      ...analysis.buttons.map((button) => ({
+        kind: 'button' as const,
+        selector: button.selector,
+        name: button.text,
+        terms: [button.text],
+      })),
+      ...analysis.links.map((link) => ({
+        kind: 'link' as const,
+        selector: link.selector,
+        name: link.text,
+        terms: [link.text],
+      })),
+      ...analysis.errorElements.map((error) => ({
+        kind: 'error' as const,
+        selector: error.selector,
+        name: error.description,
+        terms: [error.selector.replace(/^[#.]/, '')],
+      })),
+    ].map(({ terms, ...element }) => {
+      const elementGetters = getters
+        .filter((getter) =>
+          getter.selector?.split(',').some((part) => part.trim() === element.selector)
+        )
+        .map((getter) => getter.name);
+      const termTokens = terms
+        .map((term) => (term ? tokenizeForMatching(term) : []))
+        .filter((tokens) => tokens.length > 0);
+
+      const steps = usedSteps.filter(
+        (step) =>
+          step.getters.some((getter) => elementGetters.includes(getter)) ||
+          termTokens.some((tokens) => tokens.every((token) => step.tokens.has(token)))
+      );
+      return {
+        ...element,
+        getters: Array.from(new Set(elementGetters)),
+        steps: Array.from(new Set(steps.map((step) => step.text))),
+        scenarios: this.uniqueScenarios(steps),
+        covered: steps.length > 0,
+      };
+    });
+
+    const covered = elements.filter((element) => element.covered).length;
+    return {
+      generatedAt: new Date().toISOString(),
+      page: { title: analysis.title, mainFunctionality: analysis.mainFunctionality },
+      scenarios,
+      elements,
+      getters: getters.map((getter) => {
+        const steps = usedSteps.filter((step) => step.getters.includes(getter.name));
+        return {
+          ...getter,
+          steps: Array.from(new Set(steps.map((step) => step.text))),
+          scenarios: this.uniqueScenarios(steps),
+        };
+      }),
+      unmatchedSteps: Array.from(unmatchedSteps),
+      summary: {
+        elements: elements.length,
+        covered,
+        percent: elements.length ? Math.round((covered / elements.length) * 100) : 100,
+      },
+      suggestions: this.suggestScenarios(analysis, elements),
+    };
+  }
+
+  /**
+   * Steps of a feature file that no step definition matches, once per scenario
+   */
+  findUndefinedSteps(
+    featureFile: string,
+    stepDefinitionFiles: string[]
+  ): Array<{ scenario: string; step: string }> {
+    const definitions = stepDefinitionFiles.flatMap((file) =>
+      this.readStepDefinitions(file, new Set())
+    );
+    const seen = new Map<string, { scenario: string; step: string }>();
+
+    for (const { scenario, steps } of this.readScenarios(featureFile)) {
+      for (const step of steps) {
+        if (!definitions.some((definition) => definition.pattern.test(step.text))) {
+          seen.set(`${scenario.name}\0${step.text}`, { scenario: scenario.name, step: step.text });
+        }
+      }
+    }
+    return Array.from(seen.values());
+  }
+
+  /**
+   * Source of the step definitions in a step-definition file that match any of the given
+   * steps, each with its doc comment, in file order
+   */
+  extractStepDefinitions(source: string, steps: string[]): string[] {
+    const sourceFile = ts.createSourceFile(
+      'steps.ts',
+      source,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TS
+    );
+
+    return sourceFile.statements
+      .filter((statement) => {
+        if (!ts.isExpressionStatement(statement) || !ts.isCallExpression(statement.expression)) {
+          return false;
+        }
+        const call = statement.expression;
+        if (!ts.isIdentifier(call.expression) || !STEP_FUNCTIONS.includes(call.expression.text)) {
+          return false;
+        }
+        const pattern = this.toPattern(call.arguments[0]);
+        return pattern !== null && steps.some((step) => pattern.test(step));
+      })
+      .map((statement) => {
+        // Only the comment right above the call; earlier ones belong to the file header
+        const comment = ts.getLeadingCommentRanges(source, statement.getFullStart())?.pop();
+        const start = comment ? comment.pos : statement.getStart(sourceFile);
+        return source.slice(start, statement.getEnd());
+      });
+  }
+
+  /**
+   * Writes coverage-matrix.json and coverage-matrix.html to the output directory
+   *
+   * @returns Paths of the written files
+   */
+  writeReport(
+    report: CoverageReport,
+    outputDir: string = DEFAULT_COVERAGE_DIR
+  ): { json: string; html: string } {
+    const dir = path.resolve(outputDir);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const json = path.join(dir, 'coverage-matrix.json');
+    const html = path.join(dir, 'coverage-matrix.html');
+    fs.writeFileSync(json, JSON.stringify(report, null, 2) + '\n', 'utf-8');
+    fs.writeFileSync(html, this.renderHtml(report), 'utf-8');
+    return { json, html };
+  }
+
+  renderHtml(report: CoverageReport): string {
+    const scenarioKey = (ref: ScenarioRef) => `${ref.feature}\0${ref.scenario}`;
+    const header = report.scenarios
+      .map(
+        (ref) =>
+          `<th title="${escapeHtml(ref.feature)}"><span>${escapeHtml(ref.scenario)}</span></th>`
+      )
+      .join('');
+    const rows = report.elements
+      .map((element) => {
+        const used = new Set(element.scenarios.map(scenarioKey));
+        const cells = report.scenarios
+          .map((ref) => (used.has(scenarioKey(ref)) ? '<td class="hit">●</td>' : '<td></td>'))
+          .join('');
+        return `<tr class="${element.covered ? 'covered' : 'untested'}"><td>${element.kind}</td><td>${escapeHtml(element.name)}</td><td><code>${escapeHtml(element.selector)}</code></td><td>${escapeHtml(element.getters.join(', '))}</td>${cells}</tr>`;
+      })
+      .join('\n');
+    const untested = report.elements.filter((element) => !element.covered);
+    const list = (items: string[]) =>
+      items.length ? `<ul>${items.map((item) => `<li>${item}</li>`).join('')}</ul>` : '<p>None</p>';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Coverage matrix: ${escapeHtml(report.page.title)}</title>
+<style>
+  body { font-family: sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+  th span { writing-mode: vertical-rl; transform: rotate(180deg); }
+  td.hit { text-align: center; color: #1a7f37; }
+  tr.untested { background: #fff1f0; }
+</style>
+</head>
+<body>
+<h1>Coverage matrix: ${escapeHtml(report.page.title)}</h1>
+<p>${report.summary.covered} of ${report.summary.elements} elements exercised (${report.summary.percent}%), ${report.scenarios.length} scenarios. Generated ${escapeHtml(report.generatedAt)}.</p>
+<table>
+<thead><tr><th>Kind</th><th>Element</th><th>Selector</th><th>Getters</th>${header}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<h2>Untested elements</h2>
+${list(untested.map((element) => `${element.kind}: ${escapeHtml(element.name)} <code>${escapeHtml(element.selector)}</code>`))}
+<h2>Suggested scenarios</h2>
+${list(report.suggestions.map(escapeHtml))}
+<h2>Steps without a step definition</h2>
+${list(report.unmatchedSteps.map(escapeHtml))}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Suggested scenario types for the page restricted to its untested elements
+   */
+  private suggestScenarios(analysis: PageAnalysis, elements: CoverageEntry[]): string[] {
+    const untested = new Set(
+      elements.filter((element) => !element.covered).map((e) => `${e.kind}:${e.selector}`)
+    );
+    const inputs = analysis.inputFields.filter((field) => untested.has(`input:${field.selector}`));
+    const buttons = analysis.buttons.filter((button) => untested.has(`button:${button.selector}`));
+    const forms = analysis.forms.filter(
+      (form) =>
+        form.fields.some((field) => untested.has(`input:${field.selector}`)) ||
+        (form.submit_button && untested.has(`button:${form.submit_button.selector}`))
+    );
+
+    return generateSuggestedScenarios(
+      forms,
+      inputs,
+      buttons,
+      forms.length > 0 ? analysis.mainFunctionality : ''
+    );
+  }
+
+  private uniqueScenarios(steps: UsedStep[]): ScenarioRef[] {
+    const seen = new Map<string, ScenarioRef>();
+    steps.forEach((step) =>
+      seen.set(`${step.scenario.feature}\0${step.scenario.scenario}`, step.scenario)
+    );
+    return Array.from(seen.values());
+  }
+
+  /**
+   * Scenarios with their steps, background steps of the same scope included
+   */
+  private readScenarios(file: string): Array<{ scenario: GherkinScenario; steps: GherkinStep[] }> {
+    const feature = parseGherkin(fs.readFileSync(file, 'utf-8')).document?.feature;
+    if (!feature) return [];
+
+    const result: Array<{ scenario: GherkinScenario; steps: GherkinStep[] }> = [];
+    const collect = (children: typeof feature.children, inherited: GherkinStep[]) => {
+      const background = children.flatMap((child) =>
+        child.type === 'background' ? child.steps : []
+      );
+      for (const child of children) {
+        if (child.type === 'scenario') {
+          result.push({ scenario: child, steps: [...inherited, ...background, ...child.steps] });
+        } else if (child.type === 'rule') {
+          collect(child.children, [...inherited, ...background]);
+        }
+      }
+    };
+    collect(feature.children, []);
+
+    // Outline steps are matched once per Examples row with the placeholders filled in
+    return result.map(({ scenario, steps }) => {
+      const rows = scenario.examples.flatMap((examples) =>
+        examples.rows.map((row) => new Map(examples.header.map((name, i) => [name, row[i]])))
+      );
+      if (rows.length === 0) return { scenario, steps };
+      return {
+        scenario,
+        steps: rows.flatMap((row) =>
+          steps.map((step) => ({
+            ...step,
+            text: step.text.replace(/<([^>]+)>/g, (match, name) => row.get(name) ?? match),
+          }))
+        ),
+      };
+    });
+  }
+
+  private readGetters(file: string): PageObjectGetter[] {
+    const sourceFile = this.parseSource(file);
+    const getters: PageObjectGetter[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isGetAccessorDeclaration(node) && ts.isIdentifier(node.name)) {
+        let selector: string | undefined;
+        const findSelector = (child: ts.Node): void => {
+          if (
+            !selector &&
+            ts.isCallExpression(child) &&
+            ts.isIdentifier(child.expression) &&
+            ['$', '$$'].includes(child.expression.text) &&
+            child.arguments[0] &&
+            ts.isStringLiteralLike(child.arguments[0])
+          ) {
+            selector = child.arguments[0].text;
+          }
+          ts.forEachChild(child, findSelector);
+        };
+        if (node.body) findSelector(node.body);
+        getters.push({ name: node.name.text, selector, file: path.relative(process.cwd(), file) });
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return getters;
+  }
+
+  private readStepDefinitions(file: string, getterNames: Set<string>): StepDefinitionInfo[] {
+    const sourceFile = this.parseSource(file);
+    const definitions: StepDefinitionInfo[] = [];
+
+    const visit = (node: ts.Node): void => {
+      if (
+        ts.isCallExpression(node) &&
+        ts.isIdentifier(node.expression) &&
+        STEP_FUNCTIONS.includes(node.expression.text)
+      ) {
+        const [patternArg, implementation] = node.arguments;
+        const pattern = this.toPattern(patternArg);
+        if (pattern && implementation) {
+          const used = new Set<string>();
+          const findGetters = (child: ts.Node): void => {
+            if (ts.isPropertyAccessExpression(child) && getterNames.has(child.name.text)) {
+              used.add(child.name.text);
+            }
+            ts.forEachChild(child, findGetters);
+          };
+          findGetters(implementation);
+          definitions.push({ keyword: node.expression.text, pattern, getters: Array.from(used) });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return definitions;
+  }
+
+  /**
+   * Step pattern as a RegExp: regex literals as written, Cucumber expressions approximated
+   */
+  private toPattern(node: ts.Expression | undefined): RegExp | null {
+    if (!node) return null;
+    try {
+      if (ts.isRegularExpressionLiteral(node)) {
+        const match = node.text.match(/^\/(.*)\/([a-z]*)$/s);
+        return match ? new RegExp(match[1], match[2]) : null;
+      }
+      if (ts.isStringLiteralLike(node)) {
+        const source = node.text
+          .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+          .replace(/\\\{(?:string)\\\}/g, '"[^"]*"')
+          .replace(/\\\{(?:int|float|word)\\\}/g, '\\S+');
+        return new RegExp(`^${source}$`);
+      }
+    } catch {
+      // Patterns the JS engine rejects cannot be matched
+    }
+    return null;
+  }
+
+  private parseSource(file: string): ts.SourceFile {
+    return ts.createSourceFile(
+      file,
+      fs.readFileSync(file, 'utf-8'),
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TS
+    );
+  }
+}
+
+export const coverageAnalyzer = new CoverageAnalyzer();
@@ -0,0 +1,318 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { logger } from '../logger';
+import { backgroundExtractor } from './backgroundExtractor';
+import {
+  GherkinDocument,
+  GherkinFeature,
+  GherkinScenario,
+  GherkinStep,
+  formatGherkin,
+  parseGherkin,
+  resolveStepTypes,
+} from './gherkinAst';
+
+/**
+ * Incremental feature regeneration
+ *
+ * Instead of overwriting a feature file, the regenerated output is merged into it by
+ * scenario identity (title plus tags). The generation manifest records a content hash of
+ * every scenario as it was last generated; a scenario tagged @manual, or whose content no
+ * longer matches its hash, has been edited by hand and is kept as is. Unedited scenarios
+ * are refreshed from the new output and scenarios that are new are appended. Backgrounds
+ * are inlined while merging and extracted again from the result.
+ */
+
+export type MergeAction = 'added' | 'updated' | 'unchanged' | 'manual' | 'edited' | 'stale';
+
+export interface MergeEntry {
+  title: string;
+  identity: string;
+  action: MergeAction;
+}
+
+export interface MergeResult {
+  content: string;
+  entries: MergeEntry[];
+  /** The existing file was overwritten (--force, new file or a layout that cannot be merged) */
+  overwritten: boolean;
+}
+
+interface GenerationManifest {
+  /** Scenario identity to content hash, per feature file (relative to the project root) */
+  features: Record<string, Record<string, string>>;
+}
+
+export const DEFAULT_GENERATION_MANIFEST_FILE = 'generation-manifest.json';
+export const MANUAL_TAG = '@manual';
+
+/** Actions whose scenarios were written from the generator's output */
+const GENERATED_ACTIONS: MergeAction[] = ['added', 'updated', 'unchanged'];
+
+const MERGE_ICONS: Record<MergeAction, string> = {
+  added: '➕',
+  updated: '🔄',
+  unchanged: '✔️',
+  manual: '✋',
+  edited: '✏️',
+  stale: '💤',
+};
+
+const MERGE_DESCRIPTIONS: Record<MergeAction, string> = {
+  added: 'new scenario',
+  updated: 'regenerated',
+  unchanged: 'regenerated, no changes',
+  manual: `kept, tagged ${MANUAL_TAG}`,
+  edited: 'kept, edited since the last generation',
+  stale: 'kept, no longer generated',
+};
+
+/**
+ * Scenario identity: its title plus its tags (order-insensitive, @manual ignored)
+ */
+export function scenarioIdentity(scenario: GherkinScenario): string {
+  const tags = scenario.tags
+    .map((tag) => tag.name)
+    .filter((tag) => tag !== MANUAL_TAG)
+    .sort();
+  return [scenario.name.trim(), ...tags].join(' ');
+}
+
+/**
+ * Hash of what a scenario does; step keywords are compared by resolved type, so lifting
+ * steps into a Background (which may turn an And into a Given) does not count as an edit
+ */
+export function scenarioContentHash(scenario: GherkinScenario, language = 'en'): string {
+  const types = resolveStepTypes(scenario.steps, language);
+  const content = JSON.stringify({
+    identity: scenarioIdentity(scenario),
+    outline: scenario.examples.length > 0,
+    description: scenario.description,
+    steps: scenario.steps.map((step, index) => [
+      types[index],
+      step.text,
+      step.docString?.content,
+      step.dataTable,
+    ]),
+    examples: scenario.examples.map((examples) => [
+      examples.tags.map((tag) => tag.name),
+      examples.name,
+      examples.header,
+      examples.rows,
+    ]),
+  });
+  return crypto.createHash('sha1').update(content).digest('hex').slice(0, 12);
+}
+
+function withoutLocation(step: GherkinStep): GherkinStep {
+  return { ...step, location: undefined };
+}
+
+/**
+ * Top-level scenarios with the feature's Background steps prepended; null if the feature
+ * uses Rules, whose scoped Backgrounds are not merged
+ */
+function inlineScenarios(feature: GherkinFeature): GherkinScenario[] | null {
+  if (feature.children.some((child) => child.type === 'rule')) {
+    return null;
+  }
+
+  const background = feature.children.flatMap((child) =>
+    child.type === 'background' ? child.steps.map(withoutLocation) : []
+  );
+  return feature.children
+    .filter((child): child is GherkinScenario => child.type === 'scenario')
+    .map((scenario) => ({ ...scenario, steps: [...background, ...scenario.steps] }));
+}
+
+/**
+ * Strips parser locations so a node from another document does not move comments around
+ */
+function detach(scenario: GherkinScenario, location = scenario.location): GherkinScenario {
+  return {
+    ...scenario,
+    tags: scenario.tags.map((tag) => ({ name: tag.name })),
+    steps: scenario.steps.map(withoutLocation),
+    examples: scenario.examples.map((examples) => ({
+      ...examples,
+      tags: examples.tags.map((tag) => ({ name: tag.name })),
+      location: undefined,
+    })),
+    location,
+  };
+}
+
+export class FeatureMerger {
+  private manifest: GenerationManifest | null = null;
+
+  constructor(
+    private readonly manifestPath: string = process.env.GENERATION_MANIFEST_FILE ||
+      DEFAULT_GENERATION_MANIFEST_FILE
+  ) {}
+
+  getManifestPath(): string {
+    return path.resolve(this.manifestPath);
+  }
+
+  /**
+   * Merges generated content into the feature file, writes it and updates the manifest
+   */
+  writeFeature(featurePath: string, generatedContent: string, force = false): MergeResult {
+    const existingContent =
+      !force && fs.existsSync(featurePath) ? fs.readFileSync(featurePath, 'utf-8') : null;
+    const result = this.merge(featurePath, existingContent, generatedContent);
+
+    fs.writeFileSync(featurePath, result.content, 'utf-8');
+    this.recordGeneration(featurePath, result);
+    return result;
+  }
+
+  merge(
+    featurePath: string,
+    existingContent: string | null,
+    generatedContent: string
+  ): MergeResult {
+    const generated = parseGherkin(generatedContent).document?.feature;
+    const generatedScenarios = generated ? inlineScenarios(generated) : null;
+    const overwrite = (): MergeResult => ({
+      content: generatedContent,
+      entries: (generated?.children || [])
+        .filter((child): child is GherkinScenario => child.type === 'scenario')
+        .map((scenario) => ({
+          title: scenario.name,
+          identity: scenarioIdentity(scenario),
+          action: 'added',
+        })),
+      overwritten: true,
+    });
+
+    if (existingContent === null || !generated) {
+      return overwrite();
+    }
+
+    const { document, diagnostics } = parseGherkin(existingContent);
+    const existing = document?.feature;
+    const existingScenarios = existing ? inlineScenarios(existing) : null;
+    if (!document || !existing || !existingScenarios || !generatedScenarios) {
+      logger.warn(
+        `Cannot merge into ${featurePath} (${
+          diagnostics.length > 0 ? 'invalid Gherkin' : 'Rule blocks'
+        }), keeping it unchanged; use --force to overwrite`
+      );
+      return { content: existingContent, entries: [], overwritten: false };
+    }
+
+    const hashes = this.getManifest().features[this.manifestKey(featurePath)] || {};
+    const byIdentity = new Map(generatedScenarios.map((s) => [scenarioIdentity(s), s]));
+    const merged: GherkinScenario[] = [];
+    const entries: MergeEntry[] = [];
+
+    for (const scenario of existingScenarios) {
+      const identity = scenarioIdentity(scenario);
+      const replacement = byIdentity.get(identity);
+      byIdentity.delete(identity);
+
+      let action: MergeAction;
+      if (scenario.tags.some((tag) => tag.name === MANUAL_TAG)) {
+        action = 'manual';
+      } else if (hashes[identity] !== scenarioContentHash(scenario, existing.language)) {
+        // Scenarios without a recorded hash predate the manifest and are treated as edited
+        action = 'edited';
+      } else if (!replacement) {
+        action = 'stale';
+      } else {
+        action =
+          scenarioContentHash(replacement, generated.language) === hashes[identity]
+            ? 'unchanged'
+            : 'updated';
+      }
+
+      merged.push(
+        replacement && GENERATED_ACTIONS.includes(action)
+          ? detach(replacement, scenario.location)
+          : scenario
+      );
+      entries.push({ title: scenario.name, identity, action });
+    }
+
+    for (const scenario of byIdentity.values()) {
+      merged.push(detach(scenario, undefined));
+      entries.push({ title: scenario.name, identity: scenarioIdentity(scenario), action: 'added' });
+    }
+
+    existing.children = merged;
+    const mergedDocument: GherkinDocument = { ...document, feature: existing };
+    return {
+      content: backgroundExtractor.extract(formatGherkin(mergedDocument)),
+      entries,
+      overwritten: false,
+    };
+  }
+
+  formatSummary(result: MergeResult): string {
+    if (result.overwritten) {
+      return `Wrote ${result.entries.length} generated scenario(s)`;
+    }
+
+    const counts = (Object.keys(MERGE_ICONS) as MergeAction[])
+      .map((action) => [action, result.entries.filter((e) => e.action === action).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([action, count]) => `${count} ${action}`);
+    const lines = result.entries
+      .filter((entry) => entry.action !== 'unchanged')
+      .map(
+        (entry) =>
+          `   ${MERGE_ICONS[entry.action]} ${entry.title} (${MERGE_DESCRIPTIONS[entry.action]})`
+      );
+    return [`Merged scenarios: ${counts.join(', ') || 'none'}`, ...lines].join('\n');
+  }
+
+  /**
+   * Records the hashes of the scenarios written from generated output; kept scenarios
+   * retain their previous hash so they are still recognized as edited next time
+   */
+  private recordGeneration(featurePath: string, result: MergeResult): void {
+    const feature = parseGherkin(result.content).document?.feature;
+    const scenarios = feature ? inlineScenarios(feature) : null;
+    if (!feature || !scenarios) return;
+
+    const manifest = this.getManifest();
+    const key = this.manifestKey(featurePath);
+    const previous = manifest.features[key] || {};
+    const generatedIdentities = new Set(
+      result.entries
+        .filter((entry) => result.overwritten || GENERATED_ACTIONS.includes(entry.action))
+        .map((entry) => entry.identity)
+    );
+
+    const hashes: Record<string, string> = {};
+    for (const scenario of scenarios) {
+      const identity = scenarioIdentity(scenario);
+      if (generatedIdentities.has(identity)) {
+        hashes[identity] = scenarioContentHash(scenario, feature.language);
+      } else if (previous[identity]) {
+        hashes[identity] = previous[identity];
+      }
+    }
+
+    manifest.features[key] = hashes;
+    fs.writeFileSync(this.getManifestPath(), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+  }
+
+  private manifestKey(featurePath: string): string {
+    return path.relative(process.cwd(), path.resolve(featurePath)).split(path.sep).join('/');
+  }
+
+  private getManifest(): GenerationManifest {
+    if (!this.manifest) {
+      const filePath = this.getManifestPath();
+      this.manifest = fs.existsSync(filePath)
+        ? (JSON.parse(fs.readFileSync(filePath, 'utf-8')) as GenerationManifest)
+        : { features: {} };
+    }
+    return this.manifest;
+  }
+}
+
+export const featureMerger = new FeatureMerger();
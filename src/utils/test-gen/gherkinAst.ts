@@ -0,0 +1,635 @@
+import Gherkin from 'gherkin';
+// gherkin@9 only exposes the stream API publicly; the synchronous parser is imported from
+// its build output, so gherkin and cucumber-messages are pinned to matching versions
+import Parser from 'gherkin/dist/src/Parser';
+import AstBuilder from 'gherkin/dist/src/AstBuilder';
+import TokenMatcher from 'gherkin/dist/src/TokenMatcher';
+import { IdGenerator, messages } from 'cucumber-messages';
+import { logger } from '../logger';
+
+type Dialect = ReturnType<typeof Gherkin.dialects>[string];
+
+/**
+ * Gherkin AST
+ *
+ * Feature files are read with the official `gherkin` parser and converted into the plain,
+ * mutable tree below; post-processing passes edit that tree and formatGherkin writes it
+ * back out. Parse errors carry the line and column reported by the parser, so malformed
+ * AI output can be diagnosed (and repaired) precisely instead of being mangled by
+ * line-by-line regexes. Comments are kept and re-emitted before the node that followed them.
+ */
+
+export interface GherkinLocation {
+  line: number;
+  column: number;
+}
+
+export interface GherkinDiagnostic extends GherkinLocation {
+  message: string;
+}
+
+export interface GherkinTag {
+  name: string;
+  location?: GherkinLocation;
+}
+
+export interface GherkinDocString {
+  content: string;
+  delimiter: string;
+  mediaType?: string;
+}
+
+export interface GherkinStep {
+  /** Keyword exactly as written, including its trailing space ("Given ", "* ") */
+  keyword: string;
+  text: string;
+  docString?: GherkinDocString;
+  dataTable?: string[][];
+  location?: GherkinLocation;
+}
+
+export interface GherkinExamples {
+  tags: GherkinTag[];
+  keyword: string;
+  name: string;
+  description: string;
+  header: string[];
+  rows: string[][];
+  location?: GherkinLocation;
+}
+
+export interface GherkinScenario {
+  type: 'scenario';
+  tags: GherkinTag[];
+  /** "Scenario", "Scenario Outline", or the dialect's equivalent */
+  keyword: string;
+  name: string;
+  description: string;
+  steps: GherkinStep[];
+  examples: GherkinExamples[];
+  location?: GherkinLocation;
+}
+
+export interface GherkinBackground {
+  type: 'background';
+  keyword: string;
+  name: string;
+  description: string;
+  steps: GherkinStep[];
+  location?: GherkinLocation;
+}
+
+export interface GherkinRule {
+  type: 'rule';
+  keyword: string;
+  name: string;
+  description: string;
+  children: Array<GherkinBackground | GherkinScenario>;
+  location?: GherkinLocation;
+}
+
+export type GherkinFeatureChild = GherkinBackground | GherkinScenario | GherkinRule;
+
+export interface GherkinFeature {
+  tags: GherkinTag[];
+  language: string;
+  keyword: string;
+  name: string;
+  description: string;
+  children: GherkinFeatureChild[];
+  location?: GherkinLocation;
+}
+
+export interface GherkinComment {
+  text: string;
+  location: GherkinLocation;
+}
+
+export interface GherkinDocument {
+  feature?: GherkinFeature;
+  comments: GherkinComment[];
+}
+
+export interface GherkinParseResult {
+  /** Undefined when the content could not be parsed */
+  document?: GherkinDocument;
+  diagnostics: GherkinDiagnostic[];
+}
+
+export type StepType = 'Given' | 'When' | 'Then';
+
+const INDENT = '  ';
+
+const dialects: Record<string, Dialect> = Gherkin.dialects();
+
+/**
+ * True for language codes the Gherkin parser knows (e.g. "en", "de", "es")
+ */
+export function isGherkinLanguage(language: string): boolean {
+  return language in dialects;
+}
+
+/**
+ * Keywords of a Gherkin language; unknown languages fall back to English
+ */
+export function getDialect(language = 'en'): Dialect {
+  return dialects[language] || dialects.en;
+}
+
+export type KeywordKind =
+  | 'feature'
+  | 'background'
+  | 'rule'
+  | 'scenario'
+  | 'scenarioOutline'
+  | 'examples'
+  | 'given'
+  | 'when'
+  | 'then'
+  | 'and'
+  | 'but';
+
+/**
+ * Keywords used when writing a language, where its first listed synonym is not the usual
+ * one (e.g. "Example" before "Scenario")
+ */
+const PREFERRED_KEYWORDS: Record<string, Partial<Record<KeywordKind, string>>> = {
+  en: { scenario: 'Scenario' },
+  de: { scenario: 'Szenario', given: 'Gegeben sei ' },
+  es: { scenario: 'Escenario' },
+};
+
+/**
+ * The keyword written for a node or step kind; step keywords keep their trailing space
+ */
+export function keywordFor(language: string, kind: KeywordKind): string {
+  const dialect = getDialect(language);
+  const preferred = PREFERRED_KEYWORDS[dialects[language] ? language : 'en']?.[kind];
+  return preferred || dialect[kind].find((keyword) => keyword !== '* ') || '* ';
+}
+
+/**
+ * The language's preferred keyword for a step type, with its trailing space
+ */
+export function stepKeyword(language: string, type: 'given' | 'when' | 'then' | 'and'): string {
+  return keywordFor(language, type);
+}
+
+/**
+ * Resolves each step's type; And/But/* continue the type of the step before them
+ */
+export function resolveStepTypes(steps: GherkinStep[], language = 'en'): StepType[] {
+  const dialect = getDialect(language);
+  let current: StepType = 'Given';
+
+  return steps.map((step) => {
+    if (step.keyword !== '* ') {
+      if (dialect.given.includes(step.keyword)) current = 'Given';
+      else if (dialect.when.includes(step.keyword)) current = 'When';
+      else if (dialect.then.includes(step.keyword)) current = 'Then';
+    }
+    return current;
+  });
+}
+
+/**
+ * True for And/But/* steps, which continue the previous step's type
+ */
+export function isContinuationStep(step: GherkinStep, language = 'en'): boolean {
+  const dialect = getDialect(language);
+  return (
+    step.keyword === '* ' ||
+    dialect.and.includes(step.keyword) ||
+    dialect.but.includes(step.keyword)
+  );
+}
+
+/**
+ * Every scenario in the feature, including those nested in rules
+ */
+export function getScenarios(feature: GherkinFeature): GherkinScenario[] {
+  return feature.children.flatMap((child) =>
+    child.type === 'rule'
+      ? child.children.filter((c): c is GherkinScenario => c.type === 'scenario')
+      : child.type === 'scenario'
+        ? [child]
+        : []
+  );
+}
+
+/**
+ * The pickles Cucumber runs for a scenario: one per Examples row, named with the row's values
+ * filled into title placeholders and tagged with the Examples tags, or the scenario itself
+ */
+export function getPickles(scenario: GherkinScenario): Array<{ name: string; tags: string[] }> {
+  const tags = scenario.tags.map((tag) => tag.name);
+  const rows = scenario.examples.flatMap((examples) =>
+    examples.rows.map((row) => ({
+      name: scenario.name.replace(
+        /<([^>]+)>/g,
+        (match, name) => row[examples.header.indexOf(name)] ?? match
+      ),
+      tags: [...tags, ...examples.tags.map((tag) => tag.name)],
+    }))
+  );
+  return rows.length > 0 ? rows : [{ name: scenario.name, tags }];
+}
+
+/**
+ * Every step in the feature: backgrounds first within their scope, then scenarios
+ */
+export function getAllSteps(feature: GherkinFeature): GherkinStep[] {
+  const stepsOf = (child: GherkinFeatureChild): GherkinStep[] =>
+    child.type === 'rule' ? child.children.flatMap(stepsOf) : child.steps;
+  return feature.children.flatMap(stepsOf);
+}
+
+/** Node types produced by the gherkin parser */
+interface ParserNode {
+  Tag: messages.GherkinDocument.Feature.ITag;
+  TableRow: messages.GherkinDocument.Feature.ITableRow;
+  Step: messages.GherkinDocument.Feature.IStep;
+  FeatureChild: messages.GherkinDocument.Feature.IFeatureChild;
+}
+
+function toLocation(location: messages.ILocation | null | undefined): GherkinLocation | undefined {
+  return location ? { line: location.line || 0, column: location.column || 0 } : undefined;
+}
+
+function toTags(tags: ParserNode['Tag'][] | null | undefined): GherkinTag[] {
+  return (tags || []).map((tag) => ({ name: tag.name || '', location: toLocation(tag.location) }));
+}
+
+function toRows(rows: ParserNode['TableRow'][] | null | undefined): string[][] {
+  return (rows || []).map((row) => (row.cells || []).map((cell) => cell.value ?? ''));
+}
+
+function toDescription(description: string | null | undefined): string {
+  return (description || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .trim();
+}
+
+function toStep(step: ParserNode['Step']): GherkinStep {
+  return {
+    keyword: step.keyword || '',
+    text: step.text || '',
+    docString: step.docString
+      ? {
+          content: step.docString.content ?? '',
+          delimiter: step.docString.delimiter || '"""',
+          mediaType: step.docString.contentType || undefined,
+        }
+      : undefined,
+    dataTable: step.dataTable ? toRows(step.dataTable.rows) : undefined,
+    location: toLocation(step.location),
+  };
+}
+
+function toChild(child: ParserNode['FeatureChild']): GherkinFeatureChild | null {
+  if (child.background) {
+    const node = child.background;
+    return {
+      type: 'background',
+      keyword: node.keyword || '',
+      name: node.name || '',
+      description: toDescription(node.description),
+      steps: (node.steps || []).map(toStep),
+      location: toLocation(node.location),
+    };
+  }
+
+  if (child.scenario) {
+    const node = child.scenario;
+    return {
+      type: 'scenario',
+      tags: toTags(node.tags),
+      keyword: node.keyword || '',
+      name: node.name || '',
+      description: toDescription(node.description),
+      steps: (node.steps || []).map(toStep),
+      examples: (node.examples || []).map((examples) => ({
+        tags: toTags(examples.tags),
+        keyword: examples.keyword || '',
+        name: examples.name || '',
+        description: toDescription(examples.description),
+        header: examples.tableHeader ? toRows([examples.tableHeader])[0] : [],
+        rows: toRows(examples.tableBody),
+        location: toLocation(examples.location),
+      })),
+      location: toLocation(node.location),
+    };
+  }
+
+  if (child.rule) {
+    const node = child.rule;
+    return {
+      type: 'rule',
+      keyword: node.keyword || '',
+      name: node.name || '',
+      description: toDescription(node.description),
+      children: (node.children || [])
+        .map(toChild)
+        .filter(
+          (c: GherkinFeatureChild | null): c is GherkinBackground | GherkinScenario =>
+            !!c && c.type !== 'rule'
+        ),
+      location: toLocation(node.location),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Parses feature content, collecting every syntax error instead of stopping at the first
+ */
+export function parseGherkin(content: string): GherkinParseResult {
+  const parser = new Parser(new AstBuilder(IdGenerator.incrementing()));
+  parser.stopAtFirstError = false;
+
+  let raw: messages.IGherkinDocument;
+  try {
+    raw = parser.parse(content, new TokenMatcher());
+  } catch (error) {
+    const errors: Array<{ message: string; location?: messages.ILocation }> = (
+      error as { errors?: Array<{ message: string; location?: messages.ILocation }> }
+    ).errors || [error as Error];
+    return {
+      diagnostics: errors.map((e) => ({
+        line: e.location?.line ?? 0,
+        column: e.location?.column ?? 0,
+        // The parser prefixes messages with "(line:column): "
+        message: String(e.message).replace(/^\(\d+:\d+\):\s*/, ''),
+      })),
+    };
+  }
+
+  const feature = raw.feature;
+  return {
+    document: {
+      comments: (raw.comments || []).map((comment) => ({
+        text: (comment.text || '').trim(),
+        location: toLocation(comment.location)!,
+      })),
+      feature: feature
+        ? {
+            tags: toTags(feature.tags),
+            language: feature.language || 'en',
+            keyword: feature.keyword || '',
+            name: feature.name || '',
+            description: toDescription(feature.description),
+            children: (feature.children || [])
+              .map(toChild)
+              .filter((child): child is GherkinFeatureChild => child !== null),
+            location: toLocation(feature.location),
+          }
+        : undefined,
+    },
+    diagnostics: [],
+  };
+}
+
+/**
+ * Formats a diagnostic as "line 5, column 4: message"
+ */
+export function formatDiagnostic(diagnostic: GherkinDiagnostic): string {
+  return `line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+}
+
+/**
+ * Parses possibly malformed (AI-generated) content, dropping the lines the parser rejects
+ * until the rest parses
+ *
+ * @returns The parsed document (undefined if nothing parseable remains) and the
+ * diagnostics for every dropped line, numbered as in the original content
+ */
+export function repairGherkin(content: string, maxPasses = 20): GherkinParseResult {
+  let lines = content.split('\n').map((text, index) => ({ text, line: index + 1 }));
+  const diagnostics: GherkinDiagnostic[] = [];
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const result = parseGherkin(lines.map((line) => line.text).join('\n'));
+    if (result.document) {
+      return { document: result.document, diagnostics };
+    }
+
+    const rejected = new Set<number>();
+    for (const diagnostic of result.diagnostics) {
+      const original = lines[diagnostic.line - 1];
+      diagnostics.push({ ...diagnostic, line: original?.line ?? diagnostic.line });
+
+      if (/unexpected end of file/i.test(diagnostic.message)) {
+        // Usually an unclosed doc string, e.g. a markdown code fence around the output
+        for (let index = lines.length - 1; index >= 0; index--) {
+          if (isDocStringSeparator(lines[index].text.trim())) {
+            rejected.add(index);
+            break;
+          }
+        }
+      } else {
+        rejected.add(diagnostic.line - 1);
+      }
+    }
+    // Errors without a usable line (e.g. unexpected end of file) cannot be repaired
+    if (![...rejected].some((index) => index >= 0 && index < lines.length)) {
+      break;
+    }
+    lines = lines.filter((_, index) => !rejected.has(index));
+  }
+
+  logger.debug(`Could not repair Gherkin after ${diagnostics.length} diagnostic(s)`);
+  return { diagnostics };
+}
+
+function isDocStringSeparator(line: string): boolean {
+  return line.startsWith('"""') || line.startsWith('```');
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\n/g, '\\n');
+}
+
+/**
+ * Formats table rows with aligned columns
+ */
+export function formatTable(rows: string[][], indent: string): string[] {
+  const escaped = rows.map((row) => row.map(escapeCell));
+  const widths: number[] = [];
+  for (const row of escaped) {
+    row.forEach((cell, column) => {
+      widths[column] = Math.max(widths[column] || 0, cell.length);
+    });
+  }
+  return escaped.map(
+    (row) => `${indent}| ${row.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`
+  );
+}
+
+/**
+ * Writes a document back to feature file text with canonical indentation
+ */
+export function formatGherkin(document: GherkinDocument): string {
+  const comments = [...document.comments].sort((a, b) => a.location.line - b.location.line);
+  const output: string[] = [];
+
+  // Comments are emitted before the first node that followed them in the source
+  const flushComments = (location: GherkinLocation | undefined, indent: string) => {
+    while (comments.length > 0 && (!location || comments[0].location.line < location.line)) {
+      output.push(`${indent}${comments.shift()!.text}`);
+    }
+  };
+
+  const writeHeader = (
+    indent: string,
+    node: { keyword: string; name: string; description: string; location?: GherkinLocation },
+    tags: GherkinTag[] = []
+  ) => {
+    if (node.location) flushComments(tags[0]?.location || node.location, indent);
+    if (tags.length > 0) output.push(`${indent}${tags.map((tag) => tag.name).join(' ')}`);
+    output.push(`${indent}${node.keyword}:${node.name ? ` ${node.name}` : ''}`);
+    if (node.description) {
+      output.push(...node.description.split('\n').map((line) => `${indent}${INDENT}${line}`));
+    }
+  };
+
+  const writeSteps = (steps: GherkinStep[], indent: string) => {
+    for (const step of steps) {
+      if (step.location) flushComments(step.location, indent);
+      output.push(`${indent}${step.keyword}${step.text}`);
+      const argIndent = `${indent}${INDENT}`;
+      if (step.docString) {
+        const { delimiter, mediaType, content } = step.docString;
+        output.push(`${argIndent}${delimiter}${mediaType || ''}`);
+        output.push(...content.split('\n').map((line) => (line ? `${argIndent}${line}` : '')));
+        output.push(`${argIndent}${delimiter}`);
+      }
+      if (step.dataTable) {
+        output.push(...formatTable(step.dataTable, argIndent));
+      }
+    }
+  };
+
+  const writeChild = (child: GherkinFeatureChild, indent: string) => {
+    output.push('');
+    if (child.type === 'rule') {
+      writeHeader(indent, child);
+      child.children.forEach((nested) => writeChild(nested, `${indent}${INDENT}`));
+      return;
+    }
+
+    writeHeader(indent, child, child.type === 'scenario' ? child.tags : []);
+    writeSteps(child.steps, `${indent}${INDENT}`);
+
+    if (child.type === 'scenario') {
+      for (const examples of child.examples) {
+        output.push('');
+        writeHeader(`${indent}${INDENT}`, examples, examples.tags);
+        output.push(
+          ...formatTable([examples.header, ...examples.rows], `${indent}${INDENT}${INDENT}`)
+        );
+      }
+    }
+  };
+
+  const feature = document.feature;
+  if (feature) {
+    if (feature.language && feature.language !== 'en') {
+      output.push(`# language: ${feature.language}`);
+    }
+    writeHeader('', feature, feature.tags);
+    feature.children.forEach((child) => writeChild(child, INDENT));
+  }
+  flushComments(undefined, '');
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Writes a single scenario, background or rule without comments, dedented to column 0
+ */
+export function formatGherkinChild(child: GherkinFeatureChild): string {
+  const feature: GherkinFeature = {
+    tags: [],
+    language: 'en',
+    keyword: 'Feature',
+    name: '',
+    description: '',
+    children: [child],
+  };
+  // Skip the Feature line and the blank line before the child
+  return formatGherkin({ feature, comments: [] })
+    .split('\n')
+    .slice(2)
+    .map((line) => line.slice(INDENT.length))
+    .join('\n')
+    .trimEnd();
+}
+
+/**
+ * Rewrites every keyword of a document in another Gherkin language; step keywords keep
+ * their kind (And stays And), "*" steps are left as they are
+ */
+export function localizeGherkin(document: GherkinDocument, language: string): GherkinDocument {
+  const feature = document.feature;
+  if (!feature || !dialects[language]) {
+    return document;
+  }
+
+  const source = getDialect(feature.language);
+  const translateStep = (step: GherkinStep): GherkinStep => {
+    if (step.keyword === '* ') return step;
+    const kind = (['given', 'when', 'then', 'and', 'but'] as const).find((k) =>
+      source[k].includes(step.keyword)
+    );
+    return kind ? { ...step, keyword: keywordFor(language, kind) } : step;
+  };
+  const translateChild = <T extends GherkinFeatureChild>(child: T): T => {
+    if (child.type === 'rule') {
+      return {
+        ...child,
+        keyword: keywordFor(language, 'rule'),
+        children: child.children.map(translateChild),
+      };
+    }
+    if (child.type === 'background') {
+      return {
+        ...child,
+        keyword: keywordFor(language, 'background'),
+        steps: child.steps.map(translateStep),
+      };
+    }
+    return {
+      ...child,
+      keyword: keywordFor(
+        language,
+        source.scenarioOutline.includes(child.keyword) ? 'scenarioOutline' : 'scenario'
+      ),
+      steps: child.steps.map(translateStep),
+      examples: child.examples.map((examples) => ({
+        ...examples,
+        keyword: keywordFor(language, 'examples'),
+      })),
+    };
+  };
+
+  return {
+    ...document,
+    feature: {
+      ...feature,
+      language,
+      keyword: keywordFor(language, 'feature'),
+      children: feature.children.map(translateChild),
+    },
+  };
+}
+
+/**
+ * Parses and re-formats content; returns it unchanged if it does not parse
+ */
+export function normalizeGherkin(content: string): string {
+  const { document } = parseGherkin(content);
+  return document ? formatGherkin(document) : content;
+}
@@ -8,6 +8,19 @@
  * 4. Generate matching step definitions with AI-powered refinement
  */
 
+import { scenarioOutlineBuilder } from './scenarioOutlineBuilder';
+import { backgroundExtractor } from './backgroundExtractor';
+import { formatGherkin, isGherkinLanguage, localizeGherkin, parseGherkin } from './gherkinAst';
+import { ValidationError } from '../errors';
+import { requirementTag } from './traceabilityReport';
+import { ACCESSIBILITY_STEP } from '../dom/accessibilityChecker';
+import { FormInfo } from '../dom/domAnalyzer';
+import {
+  SECURITY_FILL_STEP,
+  SECURITY_REFLECTION_STEP,
+  TEXT_FIELD_SELECTOR,
+} from './securityPayloads';
+
 interface PageInfo {
   name: string;
   url: string;
@@ -21,6 +34,7 @@ interface InstructionTestCase {
   steps: string[];
   tags: string[];
   pages?: PageInfo[]; // Optional: specify which pages are involved
+  requirements?: string[]; // Optional: requirement IDs (e.g. "REQ-123"), emitted as @req: tags
 }
 
 interface Instructions {
@@ -29,6 +43,7 @@ interface Instructions {
   description: string;
   testCases: InstructionTestCase[];
   pages?: PageInfo[]; // Optional: predefined page list
+  language?: string; // Optional: Gherkin language code for the feature file (e.g. "de", "es")
 }
 
 interface PageElement {
@@ -62,6 +77,25 @@ interface GherkinStepInfo {
   original: string;
 }
 
+/**
+ * Words that mark navigation (Given) and verification (Then) steps in instructions written
+ * in other languages; English words are always checked
+ */
+const STEP_TYPE_HINTS: Record<string, { given: string[]; then: string[] }> = {
+  en: {
+    given: ['navigate', 'open'],
+    then: ['see', 'error', 'success', 'message', 'dashboard'],
+  },
+  de: {
+    given: ['navigiert', 'öffnet', 'ruft', 'befindet sich'],
+    then: ['sieht', 'fehler', 'erfolg', 'meldung', 'angezeigt', 'dashboard'],
+  },
+  es: {
+    given: ['navega', 'abre', 'accede', 'está en'],
+    then: ['ve ', 'error', 'éxito', 'mensaje', 'muestra', 'panel'],
+  },
+};
+
 export class InstructionParser {
   /**
    * Detect distinct pages from test case steps
@@ -533,23 +567,23 @@ export default new PageContextManager();`;
   /**
    * Convert instruction steps to natural Gherkin steps with proper keywords
    */
-  private instructionStepsToGherkin(steps: string[]): GherkinStepInfo[] {
+  private instructionStepsToGherkin(steps: string[], language = 'en'): GherkinStepInfo[] {
     const gherkinSteps: GherkinStepInfo[] = [];
+    const hints = [
+      STEP_TYPE_HINTS.en,
+      ...(language !== 'en' && STEP_TYPE_HINTS[language] ? [STEP_TYPE_HINTS[language]] : []),
+    ];
+    const givenWords = hints.flatMap((hint) => hint.given);
+    const thenWords = hints.flatMap((hint) => hint.then);
 
     steps.forEach((step, index) => {
       // Smart keyword assignment based on step content
       let keyword = 'When';
       const stepLower = step.toLowerCase();
 
-      if (index === 0 || stepLower.includes('navigate') || stepLower.includes('open')) {
+      if (index === 0 || givenWords.some((word) => stepLower.includes(word))) {
         keyword = 'Given';
-      } else if (
-        stepLower.includes('see') ||
-        stepLower.includes('error') ||
-        stepLower.includes('success') ||
-        stepLower.includes('message') ||
-        stepLower.includes('dashboard')
-      ) {
+      } else if (thenWords.some((word) => stepLower.includes(word))) {
         keyword = 'Then';
       }
       // Note: We use 'When' instead of 'And' to avoid function compatibility issues
@@ -618,17 +652,45 @@ export default new PageContextManager();`;
     return refined;
   }
 
+  /**
+   * The form the inferred input elements make up, so outlines get generated data rows
+   */
+  private formFromElements(elements: PageElement[]): FormInfo | undefined {
+    const inputs = elements.filter((element) => element.type === 'input');
+    if (inputs.length === 0) {
+      return undefined;
+    }
+
+    const submit = elements.find((element) => element.type === 'button');
+    return {
+      selector: 'form',
+      method: 'post',
+      action: '',
+      fields: inputs.map((element) => ({
+        name: element.name,
+        selector: element.accessor,
+        type: /password|email/i.exec(element.name)?.[0].toLowerCase() || 'text',
+        required: false,
+        label: element.description,
+      })),
+      submit_button: submit ? { selector: submit.accessor, text: submit.description } : null,
+    };
+  }
+
   /**
    * Generate feature file from test cases
    */
   private generateFeatureFile(
     instructions: Instructions,
-    testCases: InstructionTestCase[]
+    testCases: InstructionTestCase[],
+    form?: FormInfo
   ): string {
     const scenarios = testCases
       .map((testCase) => {
-        const tags = testCase.tags.map((tag) => `@${tag}`).join(' ');
-        const gherkinSteps = this.instructionStepsToGherkin(testCase.steps);
+        const tags = [...testCase.tags, ...(testCase.requirements || []).map(requirementTag)]
+          .map((tag) => `@${tag}`)
+          .join(' ');
+        const gherkinSteps = this.instructionStepsToGherkin(testCase.steps, instructions.language);
 
         const stepLines = gherkinSteps
           .map((stepObj) => `  ${stepObj.keyword} ${stepObj.step}`)
@@ -640,10 +702,19 @@ ${stepLines}`;
       })
       .join('\n\n');
 
-    return `Feature: ${instructions.projectName}
+    const feature = `Feature: ${instructions.projectName}
   ${instructions.description}
 
 ${scenarios}`;
+
+    const processed = backgroundExtractor.extract(scenarioOutlineBuilder.collapse(feature, form));
+    if (!instructions.language || instructions.language === 'en') {
+      return processed;
+    }
+
+    // Keywords are written in English above and translated once the structure is final
+    const { document } = parseGherkin(processed);
+    return document ? formatGherkin(localizeGherkin(document, instructions.language)) : processed;
   }
 
   /**
@@ -654,14 +725,15 @@ ${scenarios}`;
    */
   private generateStepDefinitions(
     testCases: InstructionTestCase[],
-    pages: Map<string, PageInfo> = new Map()
+    pages: Map<string, PageInfo> = new Map(),
+    language = 'en'
   ): string {
     const stepDefinitions: Map<string, StepDefinitionInfo> = new Map();
     const processedRegexPatterns = new Set<string>(); // Track unique regex patterns
     const hasMultiplePages = pages.size > 1;
 
     testCases.forEach((testCase) => {
-      const gherkinSteps = this.instructionStepsToGherkin(testCase.steps);
+      const gherkinSteps = this.instructionStepsToGherkin(testCase.steps, language);
 
       gherkinSteps.forEach((stepObj, index) => {
         // Generate regex first to use as the deduplication key
@@ -735,7 +807,9 @@ ${def.implementation}
 import { expect, browser, $ } from '@wdio/globals';
 import dotenv from 'dotenv';
 import generatedPage from '../page-objects/generatedPage';
-import { setupHealingHooks } from '../utils/healing/healingHooks';`;
+import { setupHealingHooks } from '../utils/healing/healingHooks';
+import { accessibilityChecker } from '../utils/dom/accessibilityChecker';
+import { getSecurityPayload, reflectionScanner } from '../utils/test-gen/securityPayloads';`;
 
     if (hasMultiplePages) {
       imports += `
@@ -852,6 +926,37 @@ ${definitions}`;
     const gherkin_lower = gherkinStep.toLowerCase();
     const pageRef = hasMultiplePages ? 'pageContextManager.getCurrentPage()' : 'generatedPage';
 
+    // Accessibility rule check on the live page
+    if (ACCESSIBILITY_STEP.test(gherkinStep)) {
+      return `  try {
+    accessibilityChecker.assertNoViolations(await browser.getPageSource());
+  } catch (error) {
+    throw new Error(\`Accessibility check failed: \${error}\`);
+  }`;
+    }
+
+    // Security payloads: typed into every text field, then looked for in the resulting page
+    if (SECURITY_FILL_STEP.test(gherkinStep)) {
+      return `  try {
+    const payload = getSecurityPayload(${params[0] || 'param1'});
+    for (const field of await browser.$$('${TEXT_FIELD_SELECTOR}')) {
+      if (await field.isDisplayed()) {
+        await field.setValue(payload.value);
+      }
+    }
+  } catch (error) {
+    throw new Error(\`Failed to fill security payload: \${error}\`);
+  }`;
+    }
+
+    if (SECURITY_REFLECTION_STEP.test(gherkinStep)) {
+      return `  try {
+    reflectionScanner.assertNotReflected(await browser.getPageSource(), ${params[0] || 'param1'});
+  } catch (error) {
+    throw new Error(\`Security check failed: \${error}\`);
+  }`;
+    }
+
     // Navigation steps (Given)
     if (
       keyword === 'Given' &&
@@ -989,6 +1094,12 @@ ${definitions}`;
    * Main orchestration method - generates all artifacts from instructions
    */
   public generateFromInstructions(instructions: Instructions): GeneratedArtifacts {
+    if (instructions.language && !isGherkinLanguage(instructions.language)) {
+      throw new ValidationError(`Unknown Gherkin language "${instructions.language}"`, {
+        language: instructions.language,
+      });
+    }
+
     // Step 0: Detect pages from instructions
     const pages = this.detectPages(instructions);
     console.log(`📄 Detected ${pages.size} page(s): ${Array.from(pages.keys()).join(', ')}`);
@@ -1010,10 +1121,18 @@ ${definitions}`;
     const pageContextManager = this.generatePageContextManager(pages);
 
     // Step 4: Generate aligned feature file
-    const featureFile = this.generateFeatureFile(instructions, instructions.testCases);
+    const featureFile = this.generateFeatureFile(
+      instructions,
+      instructions.testCases,
+      this.formFromElements(pageElements)
+    );
 
     // Step 5: Generate matching step definitions (page-aware)
-    const stepDefinitions = this.generateStepDefinitions(instructions.testCases, pages);
+    const stepDefinitions = this.generateStepDefinitions(
+      instructions.testCases,
+      pages,
+      instructions.language
+    );
 
     return {
       pageObject,
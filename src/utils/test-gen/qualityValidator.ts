@@ -1,3 +1,11 @@
+import {
+  formatDiagnostic,
+  getAllSteps,
+  getScenarios,
+  parseGherkin,
+  resolveStepTypes,
+} from './gherkinAst';
+
 export interface ValidationResult {
   passed: boolean;
   score: number;
@@ -13,14 +21,20 @@ export class ScenarioQualityValidator {
     const suggestions: string[] = [];
     let score = 100;
 
-    const lines = featureContent.split('\n');
-    const hasFeature = lines.some((l) => l.trim().startsWith('Feature:'));
-    if (!hasFeature) {
+    const { document, diagnostics } = parseGherkin(featureContent);
+    if (!document) {
+      issues.push(...diagnostics.map((d) => `Invalid Gherkin at ${formatDiagnostic(d)}`));
+      return { passed: false, score: Math.max(0, score - 50), issues, warnings, suggestions };
+    }
+
+    const feature = document.feature;
+    if (!feature) {
       issues.push('Missing "Feature:" keyword');
-      score -= 20;
+      return { passed: false, score: Math.max(0, score - 50), issues, warnings, suggestions };
     }
 
-    const scenarioCount = (featureContent.match(/Scenario:/g) || []).length;
+    const scenarios = getScenarios(feature);
+    const scenarioCount = scenarios.length;
     if (scenarioCount === 0) {
       issues.push('No scenarios found');
       score -= 30;
@@ -33,9 +47,13 @@ export class ScenarioQualityValidator {
       );
     }
 
-    const givenCount = (featureContent.match(/\bGiven\b/g) || []).length;
-    const whenCount = (featureContent.match(/\bWhen\b/g) || []).length;
-    const thenCount = (featureContent.match(/\bThen\b/g) || []).length;
+    // And/But count as the type of the step they continue, in the feature's language
+    const stepTypes = feature.children
+      .flatMap((child) => (child.type === 'rule' ? child.children : [child]))
+      .flatMap((child) => resolveStepTypes(child.steps, feature.language));
+    const givenCount = stepTypes.filter((type) => type === 'Given').length;
+    const whenCount = stepTypes.filter((type) => type === 'When').length;
+    const thenCount = stepTypes.filter((type) => type === 'Then').length;
 
     if (givenCount === 0) {
       warnings.push('No "Given" steps found. Preconditions improve clarity.');
@@ -52,8 +70,17 @@ export class ScenarioQualityValidator {
       score -= 15;
     }
 
-    const totalSteps = givenCount + whenCount + thenCount;
-    if (totalSteps > 0) {
+    for (const scenario of scenarios) {
+      if (scenario.steps.length === 0) {
+        issues.push(
+          `Scenario "${scenario.name}" has no steps${scenario.location ? ` (line ${scenario.location.line})` : ''}`
+        );
+        score -= 10;
+      }
+    }
+
+    const totalSteps = stepTypes.length;
+    if (totalSteps > 0 && scenarioCount > 0) {
       const avgStepsPerScenario = totalSteps / scenarioCount;
       if (avgStepsPerScenario > 10) {
         warnings.push(
@@ -68,47 +95,31 @@ export class ScenarioQualityValidator {
       }
     }
 
-    const invalidGherkin = lines.filter((l) => {
-      const trimmed = l.trim();
-      return (
-        trimmed.length > 0 &&
-        !trimmed.startsWith('Feature:') &&
-        !trimmed.startsWith('Scenario:') &&
-        !trimmed.startsWith('Background:') &&
-        !trimmed.startsWith('Given') &&
-        !trimmed.startsWith('When') &&
-        !trimmed.startsWith('Then') &&
-        !trimmed.startsWith('And') &&
-        !trimmed.startsWith('But') &&
-        !trimmed.startsWith('@') &&
-        !trimmed.startsWith('#')
-      );
-    });
-
-    if (invalidGherkin.length > 5) {
-      warnings.push(`${invalidGherkin.length} lines contain non-Gherkin content`);
-      score -= 10;
-    }
-
-    const hasTags = featureContent.includes('@');
+    const hasTags =
+      feature.tags.length > 0 || scenarios.some((scenario) => scenario.tags.length > 0);
     if (!hasTags) {
       suggestions.push('Add tags (@tag-name) to scenarios for better organization');
       score -= 5;
     }
 
-    const hasBackground = featureContent.includes('Background:');
+    const hasBackground = feature.children.some(
+      (child) =>
+        child.type === 'background' ||
+        (child.type === 'rule' && child.children.some((nested) => nested.type === 'background'))
+    );
     if (!hasBackground && scenarioCount > 3) {
       suggestions.push('Consider using Background: for common setup steps');
     }
 
+    const stepTexts = getAllSteps(feature).map((step) => step.text.toLowerCase());
     const ambiguousKeywords = ['click button', 'check field', 'verify something'];
     for (const keyword of ambiguousKeywords) {
-      if (featureContent.toLowerCase().includes(keyword)) {
+      if (stepTexts.some((text) => text.includes(keyword))) {
         suggestions.push(`Found vague keyword "${keyword}". Use more specific step descriptions.`);
       }
     }
 
-    const hasDataVariables = featureContent.includes('<') && featureContent.includes('>');
+    const hasDataVariables = scenarios.some((scenario) => scenario.examples.length > 0);
     if (!hasDataVariables && scenarioCount > 5) {
       suggestions.push('Consider using scenario outlines with Examples: for data-driven tests');
     }
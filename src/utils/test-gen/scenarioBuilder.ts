@@ -5,26 +5,49 @@ try {
   // dotenv may not be available
 }
 import { getDOMSnapshot } from '../dom/domParser';
-import { OllamaClient } from '../ai/ollamaClient';
-import { analyzeDOM } from '../dom/domAnalyzer';
-import { promptTemplateManager } from '../ai/promptTemplates';
+import { OllamaOptions, createOllamaClient } from '../ai/ollamaClient';
+import { CassetteMissError } from '../errors';
+import { analyzeDOM, PageAnalysis } from '../dom/domAnalyzer';
+import { promptTemplateManager, ScenarioType } from '../ai/promptTemplates';
+import { PAGE_TYPE_COMMENT } from '../ai/exampleLibrary';
+import { checkOutputFormat } from '../ai/promptSafety';
+import { getPromptTelemetry } from '../ai/promptTelemetry';
 import { scenarioClassifier } from './scenarioClassifier';
 import { scenarioQualityValidator } from './qualityValidator';
+import { scenarioOutlineBuilder } from './scenarioOutlineBuilder';
+import { scenarioDeduplicator } from './scenarioDeduplicator';
+import { backgroundExtractor } from './backgroundExtractor';
+import {
+  formatDiagnostic,
+  formatGherkin,
+  localizeGherkin,
+  parseGherkin,
+  repairGherkin,
+} from './gherkinAst';
 import { buildStepDefinitions, DEFAULT_PARAMETERS } from './stepDefinitionBuilder';
 import fs from 'fs';
 import path from 'path';
 import { load } from 'cheerio';
 
+const DEFAULT_SCENARIO_TYPES: ScenarioType[] = ['happy-path', 'negative', 'validation'];
+/** Types generated only when the instruction asks for them */
+const OPT_IN_SCENARIO_TYPES: ScenarioType[] = ['accessibility', 'security'];
+
 /**
  * Builds a complete test scenario based on a URL and user instruction.
  * Fetches the page, analyzes its structure, generates feature files and step definitions.
  *
  * @param url - The URL of the web page to test
  * @param instruction - The test instruction describing what scenarios to generate
+ * @param language - Gherkin language of the feature file (default: en)
  * @returns Promise resolving to the generated feature file path
  * @throws Error if URL is invalid or scenario generation fails
  */
-export async function buildScenario(url: string, instruction: string): Promise<string> {
+export async function buildScenario(
+  url: string,
+  instruction: string,
+  language = 'en'
+): Promise<string> {
   console.log(`🌐 Fetching DOM snapshot from: ${url}`);
   const dom = await getDOMSnapshot(url);
 
@@ -47,16 +70,9 @@ export async function buildScenario(url: string, instruction: string): Promise<s
   console.log(`📈 Page Complexity: ${complexity}`);
 
   console.log('🎯 Generating scenario prompts based on page structure...');
-  const ollamaClient = new OllamaClient();
-
-  const scenarioTypes = ['happy-path', 'negative', 'validation'] as const;
-  const scenarioPrompts = new Map<string, string>();
+  const ollamaClient = createOllamaClient();
 
-  for (const type of scenarioTypes) {
-    const template = promptTemplateManager.getTemplate(type);
-    const prompt = template.generatePrompt(pageAnalysis, instruction);
-    scenarioPrompts.set(type, prompt);
-  }
+  const scenarioPrompts = buildScenarioPrompts(pageAnalysis, instruction, language);
 
   console.log('🧠 Generating scenarios with AI...');
   let allScenarios = '';
@@ -64,12 +80,33 @@ export async function buildScenario(url: string, instruction: string): Promise<s
   for (const [type, prompt] of scenarioPrompts) {
     try {
       console.log(`   Generating ${type} scenarios...`);
-      const scenarios = await ollamaClient.generateText(prompt, {
+      // Discarded gherkin stays out of the cache so the next run asks the model again
+      const options: OllamaOptions = {
         temperature: 0.3,
         max_tokens: 800,
+        priority: 'bulk',
+        promptType: `scenario:${type}`,
+        deferCache: true,
+      };
+      const scenarios = await ollamaClient.generateText(prompt, options);
+
+      const issues = checkOutputFormat(scenarios, 'gherkin');
+      const quality = scenarioQualityValidator.validateScenarioContent(
+        buildFeatureHeader(pageAnalysis, instruction) + scenarios
+      );
+      getPromptTelemetry()?.recordValidation(`scenario:${type}`, prompt, {
+        passed: issues.length === 0 && quality.passed,
+        score: quality.score,
+        issues: [...issues, ...quality.issues],
       });
+      if (issues.length > 0) {
+        console.warn(`   ⚠️ Discarded ${type} scenarios: ${issues.join('; ')}`);
+        continue;
+      }
+      ollamaClient.cacheResponse(prompt, options, scenarios);
       allScenarios += `\n\n${scenarios}`;
     } catch (error) {
+      if (error instanceof CassetteMissError) throw error;
       console.warn(
         `   ⚠️ Failed to generate ${type} scenarios: ${error instanceof Error ? error.message : error}`
       );
@@ -93,7 +130,31 @@ export async function buildScenario(url: string, instruction: string): Promise<s
   const fileName = generateFileName(url);
   const fullPath = path.join(featuresDir, fileName);
 
-  const sanitizedFeatureContent = sanitizeGherkinContent(featureContent);
+  let parsedFeatureContent = sanitizeGherkinContent(featureContent);
+  if (!parsedFeatureContent) {
+    console.warn('⚠️ Generated feature could not be repaired, using fallback feature');
+    featureContentRaw = createEnhancedFallbackFeature(pageAnalysis, instruction);
+    parsedFeatureContent =
+      sanitizeGherkinContent(buildFeatureHeader(pageAnalysis, instruction) + featureContentRaw) ||
+      featureContent;
+  }
+
+  // Scenarios that differ only in data become outlines, filled from the page's first form,
+  // repeats from the separate scenario-type prompts are dropped, and preconditions shared
+  // by every scenario move into a Background
+  const deduplication = scenarioDeduplicator.deduplicate(
+    scenarioOutlineBuilder.collapse(parsedFeatureContent, pageAnalysis.forms[0])
+  );
+  if (deduplication.removed.length > 0) {
+    console.log(`🧹 Removed ${deduplication.removed.length} redundant scenario(s):`);
+    deduplication.removed.forEach((r) =>
+      console.log(`   - "${r.title}" (${r.reason} of "${r.keptTitle}"): ${r.detail}`)
+    );
+  }
+  const sanitizedFeatureContent = localizeFeature(
+    backgroundExtractor.extract(deduplication.content),
+    language
+  );
 
   fs.writeFileSync(fullPath, sanitizedFeatureContent, 'utf-8');
 
@@ -102,7 +163,7 @@ export async function buildScenario(url: string, instruction: string): Promise<s
   const validation = scenarioQualityValidator.validateScenarioContent(sanitizedFeatureContent);
   console.log(`📝 Feature Quality Score: ${validation.score}/100`);
   console.log(`📝 Feature summary:
-  - Scenarios: ${(sanitizedFeatureContent.match(/Scenario:/g) || []).length}
+  - Scenarios: ${(sanitizedFeatureContent.match(/Scenario(?: Outline)?:/g) || []).length}
   - Steps: ${(sanitizedFeatureContent.match(/(Given|When|Then|And|But)/g) || []).length}`);
 
   if (validation.warnings.length > 0) {
@@ -119,6 +180,7 @@ export async function buildScenario(url: string, instruction: string): Promise<s
   try {
     await buildStepDefinitions(sanitizedFeatureContent, url, featureContentRaw);
   } catch (error) {
+    if (error instanceof CassetteMissError) throw error;
     console.warn(
       `⚠️ Failed to generate step definitions: ${error instanceof Error ? error.message : error}`
     );
@@ -127,11 +189,51 @@ export async function buildScenario(url: string, instruction: string): Promise<s
   return fullPath;
 }
 
+/**
+ * Renders the prompts buildScenario sends to the LLM: the core happy-path, negative and
+ * validation templates, the accessibility or security template when the instruction asks
+ * for it, plus every scenario type registered by a template pack
+ */
+export function buildScenarioPrompts(
+  pageAnalysis: PageAnalysis,
+  instruction: string,
+  language = 'en'
+): Map<ScenarioType, string> {
+  const requestedType = scenarioClassifier.classifyByKeywords(instruction);
+  const scenarioTypes: ScenarioType[] = [
+    ...DEFAULT_SCENARIO_TYPES,
+    ...OPT_IN_SCENARIO_TYPES.filter((type) => type === requestedType),
+    ...promptTemplateManager.getCustomTypes(),
+  ];
+  const scenarioPrompts = new Map<ScenarioType, string>();
+
+  for (const type of scenarioTypes) {
+    scenarioPrompts.set(
+      type,
+      promptTemplateManager.generatePromptForType(type, pageAnalysis, instruction, language)
+    );
+  }
+
+  return scenarioPrompts;
+}
+
+/**
+ * Translates the keywords of a generated feature (written in English) into its language
+ */
+function localizeFeature(featureContent: string, language: string): string {
+  if (language === 'en') {
+    return featureContent;
+  }
+  const { document } = parseGherkin(featureContent);
+  return document ? formatGherkin(localizeGherkin(document, language)) : featureContent;
+}
+
 function buildFeatureHeader(pageAnalysis: any, instruction: string): string {
   const title = pageAnalysis.title || 'Feature Test';
   const description = instruction || pageAnalysis.description;
 
-  return `Feature: ${title} Testing
+  return `${PAGE_TYPE_COMMENT} ${pageAnalysis.mainFunctionality}
+Feature: ${title} Testing
   As a user
   I want to test ${description}
   So that I can verify the functionality works correctly
@@ -139,24 +241,19 @@ function buildFeatureHeader(pageAnalysis: any, instruction: string): string {
 `;
 }
 
-function sanitizeGherkinContent(content: string): string {
-  const lines = content.split('\n');
-  const sanitizedLines: string[] = [];
+/**
+ * Parses the AI output as Gherkin, dropping the lines the parser rejects (prose, code
+ * fences) and rewriting the rest with canonical indentation
+ */
+function sanitizeGherkinContent(content: string): string | null {
+  const { document, diagnostics } = repairGherkin(content);
 
-  for (const line of lines) {
-    if (/^\s*(Feature:|Scenario:|Background:|Given |When |Then |And |But |@|#)/.test(line)) {
-      sanitizedLines.push(line);
-    } else if (line.trim() === '') {
-      sanitizedLines.push(line);
-    }
+  if (diagnostics.length > 0) {
+    console.warn(`⚠️ Removed ${diagnostics.length} malformed line(s) from the generated feature:`);
+    diagnostics.forEach((d) => console.warn(`   - ${formatDiagnostic(d)}`));
   }
 
-  return (
-    sanitizedLines
-      .join('\n')
-      .replace(/\n\n\n+/g, '\n\n')
-      .trim() + '\n'
-  );
+  return document?.feature ? formatGherkin(document) : null;
 }
 
 function generateFileName(url: string): string {
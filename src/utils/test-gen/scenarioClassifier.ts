@@ -1,4 +1,4 @@
-import { ScenarioType } from '../ai/promptTemplates';
+import { PromptTemplate, ScenarioType, promptTemplateManager } from '../ai/promptTemplates';
 
 export interface ClassifiedScenario {
   title: string;
@@ -72,6 +72,26 @@ export class ScenarioClassifier {
       'flow',
     ];
 
+    const accessibilityKeywords = [
+      'accessibility',
+      'accessible',
+      'a11y',
+      'wcag',
+      'screen reader',
+      'keyboard',
+      'aria',
+    ];
+
+    const securityKeywords = ['security', 'injection', 'xss', 'payload', 'sanitiz', 'escap'];
+
+    if (accessibilityKeywords.some((kw) => lower.includes(kw))) {
+      return 'accessibility';
+    }
+
+    if (securityKeywords.some((kw) => lower.includes(kw))) {
+      return 'security';
+    }
+
     if (negativeKeywords.some((kw) => lower.includes(kw))) {
       return 'negative';
     }
@@ -98,9 +118,11 @@ export class ScenarioClassifier {
       'edge-case': ['@edge-case', '@boundary', '@corner-case'],
       validation: ['@validation', '@format', '@constraint'],
       workflow: ['@workflow', '@integration', '@e2e'],
+      accessibility: ['@accessibility', '@a11y'],
+      security: ['@security', '@injection'],
     };
 
-    return tagMap[type] || ['@functional'];
+    return tagMap[type] || this.getCustomTemplate(type)?.tags || ['@functional'];
   }
 
   classifyScenario(title: string): ClassifiedScenario {
@@ -118,7 +140,10 @@ export class ScenarioClassifier {
     };
   }
 
-  private calculatePriority(type: ScenarioType, title: string): number {
+  /**
+   * Priority from 0 to 20: the type's base priority, raised for login, payment and security
+   */
+  calculatePriority(type: ScenarioType, title: string): number {
     let priority = 0;
 
     const priorityMap: Record<ScenarioType, number> = {
@@ -127,9 +152,11 @@ export class ScenarioClassifier {
       validation: 7,
       'edge-case': 5,
       workflow: 9,
+      accessibility: 6,
+      security: 8,
     };
 
-    priority = priorityMap[type];
+    priority = priorityMap[type] ?? this.getCustomTemplate(type)?.priority ?? 5;
 
     if (title.toLowerCase().includes('login') || title.toLowerCase().includes('auth')) {
       priority += 5;
@@ -153,9 +180,15 @@ export class ScenarioClassifier {
       'edge-case': 'Tests boundary conditions and special cases that might break functionality',
       validation: 'Tests input validation, constraints, and data format requirements',
       workflow: 'Tests complete user workflow spanning multiple interactions',
+      accessibility: 'Tests labels, accessible names, heading structure and keyboard access',
+      security: 'Tests that injection payloads in text fields are not reflected unescaped',
     };
 
-    return descriptions[type];
+    return descriptions[type] || this.getCustomTemplate(type)?.description || title;
+  }
+
+  private getCustomTemplate(type: ScenarioType): PromptTemplate | null {
+    return promptTemplateManager.hasTemplate(type) ? promptTemplateManager.getTemplate(type) : null;
   }
 
   sortScenariosByPriority(scenarios: ClassifiedScenario[]): ClassifiedScenario[] {
@@ -188,6 +221,8 @@ export class ScenarioClassifier {
         'edge-case': 0,
         validation: 1,
         workflow: 0,
+        accessibility: 0,
+        security: 0,
       },
       moderate: {
         'happy-path': 2,
@@ -195,6 +230,8 @@ export class ScenarioClassifier {
         'edge-case': 1,
         validation: 2,
         workflow: 1,
+        accessibility: 1,
+        security: 1,
       },
       complex: {
         'happy-path': 3,
@@ -202,6 +239,8 @@ export class ScenarioClassifier {
         'edge-case': 2,
         validation: 3,
         workflow: 2,
+        accessibility: 1,
+        security: 1,
       },
     };
 
@@ -249,6 +288,8 @@ export class ScenarioClassifier {
         `${baseTitle} - Constraint checking`,
       ],
       workflow: [`${baseTitle} - Complete workflow`, `${baseTitle} - Multi-step journey`],
+      accessibility: [`${baseTitle} - Accessibility`],
+      security: [`${baseTitle} - Security payloads`],
     };
 
     for (const [type, count] of Object.entries(recommendations) as [ScenarioType, number][]) {
@@ -0,0 +1,142 @@
+/**
+ * ScenarioDeduplicator Tests
+ * Valid/invalid pairs must survive; only rewordings of the same test are dropped
+ */
+
+import { normalizeStep, scenarioDeduplicator } from './scenarioDeduplicator';
+
+const feature = (scenarios: string) => `Feature: Login\n\n${scenarios}`;
+
+describe('normalizeStep', () => {
+  test('should ignore subject, filler words and verb forms', () => {
+    expect(normalizeStep('I click the "Login" button')).toBe(
+      normalizeStep('the user clicks on the "Login" button')
+    );
+  });
+
+  test('should keep quoted values', () => {
+    expect(normalizeStep('I should see "You logged into a secure area!"')).not.toBe(
+      normalizeStep('I should see "Your password is invalid!"')
+    );
+    expect(normalizeStep('I enter "tomsmith" as username')).not.toBe(
+      normalizeStep('I enter "wrong" as username')
+    );
+  });
+});
+
+describe('ScenarioDeduplicator', () => {
+  test('should keep a negative scenario that differs from the happy path only in values', () => {
+    const content = feature(`  @happy-path
+  Scenario: Successful login
+    Given I am on the login page
+    When I enter "tomsmith" in the username field
+    And I enter "SuperSecretPassword!" in the password field
+    And I click the "Login" button
+    Then I should see "You logged into a secure area!"
+
+  @negative
+  Scenario: Login fails with wrong password
+    Given I am on the login page
+    When I enter "tomsmith" in the username field
+    And I enter "wrong" in the password field
+    And I click the "Login" button
+    Then I should see "Your password is invalid!"
+`);
+
+    const result = scenarioDeduplicator.deduplicate(content);
+
+    expect(result.removed).toHaveLength(0);
+    expect(result.content).toBe(content);
+  });
+
+  test('should keep scenarios with the same actions but different expected messages', () => {
+    const content = feature(`  Scenario: Empty password
+    Given I am on the login page
+    When I click the "Login" button
+    Then I should see "Password is required"
+
+  Scenario: Empty username
+    Given I am on the login page
+    When I click the "Login" button
+    Then I should see "Username is required"
+`);
+
+    expect(scenarioDeduplicator.deduplicate(content).removed).toHaveLength(0);
+  });
+
+  test('should drop a reworded scenario with the same values and merge its tags', () => {
+    const result = scenarioDeduplicator.deduplicate(
+      feature(`  @happy-path
+  Scenario: Successful login
+    Given I am on the login page
+    When I enter "tomsmith" in the username field
+    And I click the "Login" button
+    Then I should see "You logged into a secure area!"
+
+  @smoke
+  Scenario: User logs in
+    Given the user is on the login page
+    When the user enters "tomsmith" into the username field
+    And the user clicks on the "Login" button
+    Then the user should see "You logged into a secure area!"
+`)
+    );
+
+    expect(result.removed).toEqual([
+      expect.objectContaining({
+        title: 'User logs in',
+        reason: 'duplicate',
+        keptTitle: 'Successful login',
+      }),
+    ]);
+    expect(result.content).toContain('@happy-path @smoke');
+    expect(result.content).not.toContain('Scenario: User logs in');
+  });
+
+  test('should fold a scenario whose assertions another one checks after the same steps', () => {
+    const result = scenarioDeduplicator.deduplicate(
+      feature(`  Scenario: Login fails
+    Given I am on the login page
+    When I enter "wrong" in the password field
+    Then I should see "Your password is invalid!"
+
+  Scenario: Login fails and stays on the page
+    Given I am on the login page
+    When I enter "wrong" in the password field
+    Then I should see "Your password is invalid!"
+    And I should be on the login page
+`)
+    );
+
+    expect(result.removed.map((r) => [r.title, r.reason])).toEqual([['Login fails', 'subsumed']]);
+  });
+
+  test('should drop a scenario repeating an outline row but keep one with other values', () => {
+    const result = scenarioDeduplicator.deduplicate(
+      feature(`  Scenario Outline: Login attempts
+    Given I am on the login page
+    When I enter "<password>" in the password field
+    Then I should see "<message>"
+
+    Examples:
+      | password             | message                        |
+      | SuperSecretPassword! | You logged into a secure area! |
+
+  Scenario: Valid password
+    Given I am on the login page
+    When I enter "SuperSecretPassword!" in the password field
+    Then I should see "You logged into a secure area!"
+
+  Scenario: Wrong password
+    Given I am on the login page
+    When I enter "wrong" in the password field
+    Then I should see "Your password is invalid!"
+`)
+    );
+
+    expect(result.removed.map((r) => [r.title, r.keptTitle])).toEqual([
+      ['Valid password', 'Login attempts'],
+    ]);
+    expect(result.content).toContain('Scenario: Wrong password');
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  GherkinFeatureChild,
+  GherkinScenario,
+  formatGherkin,
+  parseGherkin,
+  resolveStepTypes,
+} from './gherkinAst';
+
+export type RemovalReason = 'duplicate' | 'subsumed';
+
+export interface RemovedScenario {
+  title: string;
+  line?: number;
+  reason: RemovalReason;
+  /** Scenario that was kept in its place and received its tags */
+  keptTitle: string;
+  detail: string;
+}
+
+export interface DeduplicationResult {
+  content: string;
+  removed: RemovedScenario[];
+}
+
+interface ScenarioSignature {
+  node: GherkinScenario;
+  given: Set<string>;
+  /** Actions in order, since reordering them changes what is tested */
+  when: string[];
+  then: Set<string>;
+}
+
+const QUOTED_VALUE = /"([^"]*)"|'([^']*)'/g;
+const PLACEHOLDER = /<([^>\s]+)>/g;
+const SUBJECT = /^\s*(?:i|the user|a user|user|they)\s+/i;
+/** Filler words; unlike element matching, verbs such as "click" or "see" are kept */
+const FILLER_WORDS = new Set('the a an on in into to of at should be is am are my it'.split(' '));
+
+function normalizeWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !FILLER_WORDS.has(word))
+    .map((word) => word.replace(/(?<!s)s$/, ''));
+}
+
+/**
+ * Normalizes the wording of a step for comparison: the subject, filler words and
+ * plural/third-person "s" are dropped, so `I click the "Login" button` and `the user clicks
+ * on the "Login" button` compare equal. Quoted values are kept as written (trimmed and
+ * lowercased): steps that enter other data or expect another message test something else.
+ */
+export function normalizeStep(text: string): string {
+  const parts: string[] = [];
+  let last = 0;
+  const stripped = text.replace(SUBJECT, '');
+  for (const match of stripped.matchAll(QUOTED_VALUE)) {
+    parts.push(...normalizeWords(stripped.slice(last, match.index)));
+    parts.push(`"${(match[1] ?? match[2]).trim().toLowerCase()}"`);
+    last = match.index! + match[0].length;
+  }
+  parts.push(...normalizeWords(stripped.slice(last)));
+  return parts.join(' ');
+}
+
+/**
+ * Removes generated scenarios that repeat another one in different words
+ *
+ * Two scenarios are equivalent when their preconditions and assertions (as sets) and their
+ * actions (in order) normalize to the same steps, quoted values included; the later one is
+ * dropped. A scenario is subsumed when another performs the same preconditions and actions
+ * and asserts everything it asserts and more. An outline is compared row by row, with each
+ * row's values filled in. Tags of a removed scenario are merged into the one that replaces
+ * it. Scenario Outlines are never removed, and scenarios with tables or doc strings are
+ * left alone.
+ */
+export class ScenarioDeduplicator {
+  deduplicate(featureContent: string): DeduplicationResult {
+    const { document } = parseGherkin(featureContent);
+    const feature = document?.feature;
+    if (!document || !feature) {
+      return { content: featureContent, removed: [] };
+    }
+
+    const removed: RemovedScenario[] = [];
+    feature.children = this.deduplicateChildren(feature.children, feature.language, removed);
+    for (const child of feature.children) {
+      if (child.type === 'rule') {
+        child.children = this.deduplicateChildren(child.children, feature.language, removed);
+      }
+    }
+
+    return {
+      content: removed.length > 0 ? formatGherkin(document) : featureContent,
+      removed,
+    };
+  }
+
+  private deduplicateChildren<T extends GherkinFeatureChild>(
+    children: T[],
+    language: string,
+    removed: RemovedScenario[]
+  ): T[] {
+    const signatures = children
+      .filter((child): child is T & GherkinScenario => child.type === 'scenario')
+      .flatMap((scenario) => this.signatures(scenario, language));
+    const dropped = new Set<GherkinFeatureChild>();
+
+    signatures.forEach((candidate, index) => {
+      if (candidate.node.examples.length > 0) return;
+
+      for (const [otherIndex, other] of signatures.entries()) {
+        if (other.node === candidate.node || dropped.has(other.node)) continue;
+
+        let reason: RemovalReason | undefined;
+        let detail = '';
+        if (this.isEquivalent(candidate, other)) {
+          // Of two plain equivalent scenarios the first is kept; an outline always wins
+          if (other.node.examples.length === 0 && otherIndex > index) continue;
+          reason = 'duplicate';
+          detail =
+            other.node.examples.length > 0
+              ? 'same steps as the outline, with one of its data rows'
+              : 'same preconditions, actions and assertions in different words';
+        } else if (this.subsumes(other, candidate)) {
+          reason = 'subsumed';
+          detail = `same preconditions and actions; its ${candidate.then.size} assertion(s) are all checked by the kept scenario`;
+        }
+        if (!reason) continue;
+
+        const keptTags = new Set(other.node.tags.map((tag) => tag.name));
+        other.node.tags.push(
+          ...candidate.node.tags
+            .filter((tag) => !keptTags.has(tag.name))
+            .map((tag) => ({ name: tag.name }))
+        );
+        dropped.add(candidate.node);
+        removed.push({
+          title: candidate.node.name,
+          line: candidate.node.location?.line,
+          reason,
+          keptTitle: other.node.name,
+          detail,
+        });
+        return;
+      }
+    });
+
+    return children.filter((child) => !dropped.has(child));
+  }
+
+  /**
+   * One signature for a plain scenario, one per Examples row for an outline
+   */
+  private signatures(scenario: GherkinScenario, language: string): ScenarioSignature[] {
+    if (
+      scenario.steps.length === 0 ||
+      scenario.steps.some((step) => step.docString || step.dataTable)
+    ) {
+      return [];
+    }
+
+    const types = resolveStepTypes(scenario.steps, language);
+    const rows = scenario.examples.flatMap((examples) =>
+      examples.rows.map(
+        (row) => (text: string) =>
+          text.replace(PLACEHOLDER, (match, name) => row[examples.header.indexOf(name)] ?? match)
+      )
+    );
+
+    return (rows.length > 0 ? rows : [(text: string) => text]).map((fill) => {
+      const signature: ScenarioSignature = {
+        node: scenario,
+        given: new Set(),
+        when: [],
+        then: new Set(),
+      };
+      scenario.steps.forEach((step, index) => {
+        const normalized = normalizeStep(fill(step.text));
+        if (types[index] === 'Given') signature.given.add(normalized);
+        else if (types[index] === 'When') signature.when.push(normalized);
+        else signature.then.add(normalized);
+      });
+      return signature;
+    });
+  }
+
+  private sameActions(a: ScenarioSignature, b: ScenarioSignature): boolean {
+    return (
+      a.given.size === b.given.size &&
+      Array.from(a.given).every((step) => b.given.has(step)) &&
+      a.when.join('\n') === b.when.join('\n')
+    );
+  }
+
+  private isEquivalent(a: ScenarioSignature, b: ScenarioSignature): boolean {
+    return (
+      this.sameActions(a, b) &&
+      a.then.size === b.then.size &&
+      Array.from(a.then).every((step) => b.then.has(step))
+    );
+  }
+
+  /**
+   * True when `outer` checks strictly more than `inner` after the same steps
+   */
+  private subsumes(outer: ScenarioSignature, inner: ScenarioSignature): boolean {
+    return (
+      this.sameActions(outer, inner) &&
+      outer.then.size > inner.then.size &&
+      Array.from(inner.then).every((step) => outer.then.has(step))
+    );
+  }
+}
+
+export const scenarioDeduplicator = new ScenarioDeduplicator();
@@ -0,0 +1,93 @@
+/**
+ * ScenarioOutlineBuilder Tests
+ * Generated Examples rows must be reproducible and expect the outcome of their own category
+ */
+
+import { FormInfo } from '../dom/domAnalyzer';
+import { getPickles, getScenarios, parseGherkin } from './gherkinAst';
+import { scenarioOutlineBuilder } from './scenarioOutlineBuilder';
+import { testDataGenerator } from './testDataGenerator';
+
+const form: FormInfo = {
+  selector: '#login',
+  method: 'post',
+  action: '/authenticate',
+  fields: [
+    { name: 'username', selector: '#username', type: 'text', required: true, label: 'Username' },
+    {
+      name: 'password',
+      selector: '#password',
+      type: 'password',
+      required: true,
+      label: 'Password',
+    },
+  ],
+  submit_button: { selector: 'button[type="submit"]', text: 'Login' },
+};
+
+const scenario = (title: string, password: string, message: string) => `
+  Scenario: ${title}
+    Given I am on the login page
+    When I enter "tomsmith" as username
+    And I enter "${password}" as password
+    Then I should see "${message}"
+`;
+
+const outlineOf = (content: string) => {
+  const feature = parseGherkin(content).document!.feature!;
+  const [outline] = getScenarios(feature);
+  return outline;
+};
+
+describe('ScenarioOutlineBuilder', () => {
+  const feature = `Feature: Login
+${scenario('Successful login with valid credentials', 'SuperSecretPassword!', 'You logged into a secure area!')}
+${scenario('Login fails with wrong password', 'wrong', 'Your password is invalid!')}`;
+
+  test('should expect the invalid outcome in generated invalid rows', () => {
+    const outline = outlineOf(scenarioOutlineBuilder.collapse(feature, form));
+    const generated = outline.examples.find(
+      (examples) => examples.name === 'Generated invalid data'
+    );
+
+    expect(generated?.header).toEqual(['case', 'password', 'value']);
+    expect(generated?.rows).toHaveLength(1);
+    expect(generated?.rows[0][2]).toBe('Your password is invalid!');
+  });
+
+  test('should generate the same rows on every run', () => {
+    expect(scenarioOutlineBuilder.collapse(feature, form)).toBe(
+      scenarioOutlineBuilder.collapse(feature, form)
+    );
+    expect(testDataGenerator.generateTestDataForForm(form, 'seed')).toEqual(
+      testDataGenerator.generateTestDataForForm(form, 'seed')
+    );
+  });
+
+  test('should not name a mixed valid/invalid outline after the valid scenario', () => {
+    const outline = outlineOf(scenarioOutlineBuilder.collapse(feature, form));
+
+    expect(outline.name).toBe('Login with credentials');
+  });
+
+  test('should skip a generated category whose outcome no scenario shows', () => {
+    const content = `Feature: Login
+${scenario('Login fails with wrong password', 'wrong', 'Your password is invalid!')}
+${scenario('Login fails with empty password', '', 'Password is required')}`;
+    const outline = outlineOf(scenarioOutlineBuilder.collapse(content, form));
+
+    // "fails with empty password" hints at both invalid and empty data, so only the
+    // wrong-password scenario is a known source for an expected message
+    expect(outline.examples.map((examples) => examples.name)).toEqual([
+      '',
+      'Generated invalid data',
+    ]);
+    expect(getPickles(outline).map((pickle) => pickle.name)).toHaveLength(3);
+  });
+
+  test('should leave generated rows out without a form', () => {
+    const outline = outlineOf(scenarioOutlineBuilder.collapse(feature));
+
+    expect(outline.examples).toHaveLength(1);
+  });
+});
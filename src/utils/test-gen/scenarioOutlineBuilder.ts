@@ -0,0 +1,408 @@
+import { FormField, FormInfo } from '../dom/domAnalyzer';
+import { TestDataGenerator, TestDataSet, testDataGenerator } from './testDataGenerator';
+import {
+  GherkinExamples,
+  GherkinFeatureChild,
+  GherkinScenario,
+  GherkinStep,
+  formatGherkin,
+  getDialect,
+  keywordFor,
+  parseGherkin,
+} from './gherkinAst';
+
+type DataCategory = keyof TestDataSet;
+
+interface ParsedScenario {
+  node: GherkinScenario;
+  title: string;
+  tags: string[];
+  /** Step text without keywords */
+  steps: string[];
+  /** Keywords and step text with quoted values replaced, used to detect identical structure */
+  signature: string;
+  values: string[];
+}
+
+interface OutlineColumn {
+  /** Position among the scenario's quoted values */
+  position: number;
+  name: string;
+  field?: FormField;
+}
+
+interface ValueLocation {
+  /** Lowercased step text with the quoted value blanked out */
+  text: string;
+  start: number;
+  end: number;
+}
+
+const QUOTED_VALUE = /"([^"]*)"/g;
+
+/**
+ * Test data categories a group of scenarios asks for, judged from titles and tags
+ */
+const CATEGORY_HINTS: Array<[DataCategory, RegExp]> = [
+  ['invalid', /\b(?:invalid|incorrect|wrong|negative|malformed|fail(?:s|ed|ure)?)\b/i],
+  ['empty', /\b(?:empty|blank|missing|required)\b/i],
+  ['boundary', /\b(?:boundary|edge|limits?|max(?:imum)?|min(?:imum)?|long(?:est)?)\b/i],
+];
+
+/** Words that name an Examples column when no form field is mentioned near a value */
+const CONTEXT_NOUNS = [
+  ...'username email password name phone url message title'.split(' '),
+  ...'query search amount code text field button link page'.split(' '),
+];
+
+const VALID_HINT = /\b(?:valid|successful(?:ly)?|success|happy|positive)\b/i;
+
+const TRAILING_FILLER = /\s+(?:with|and|or|for|using|a|an|the|in|on)$/i;
+
+/**
+ * Collapses structurally identical scenarios into Scenario Outlines
+ *
+ * Scenarios whose steps differ only in quoted values become one outline with an Examples
+ * table, one row per original scenario. Columns that refer to a form field are extended
+ * with rows from TestDataGenerator (valid, invalid, boundary or empty data, whichever the
+ * scenarios' titles and tags ask for), seeded by the scenarios so every run writes the same
+ * rows. Other columns, usually the expected outcome, are copied from a scenario of the same
+ * category; a category no scenario covers gets no generated row. The feature is edited as a
+ * Gherkin AST; content that does not parse is returned unchanged.
+ */
+export class ScenarioOutlineBuilder {
+  constructor(private readonly dataGenerator: TestDataGenerator = testDataGenerator) {}
+
+  collapse(featureContent: string, form?: FormInfo): string {
+    const { document } = parseGherkin(featureContent);
+    const feature = document?.feature;
+    if (!document || !feature) {
+      return featureContent;
+    }
+
+    feature.children = this.collapseChildren(feature.children, feature.language, form);
+    for (const child of feature.children) {
+      if (child.type === 'rule') {
+        child.children = this.collapseChildren(child.children, feature.language, form);
+      }
+    }
+
+    return formatGherkin(document);
+  }
+
+  /**
+   * Replaces each group of equivalent scenarios with one outline at the first one's position
+   */
+  private collapseChildren<T extends GherkinFeatureChild>(
+    children: T[],
+    language: string,
+    form?: FormInfo
+  ): T[] {
+    const groups = new Map<string, ParsedScenario[]>();
+    for (const child of children) {
+      const parsed = child.type === 'scenario' ? this.parseScenario(child, language) : null;
+      if (!parsed) continue;
+      groups.set(parsed.signature, [...(groups.get(parsed.signature) || []), parsed]);
+    }
+
+    const replacements = new Map<GherkinFeatureChild, GherkinScenario | null>();
+    for (const group of groups.values()) {
+      if (group.length < 2 || group[0].values.length === 0) continue;
+      const outline = this.buildOutline(group, language, form);
+      if (!outline) continue;
+
+      replacements.set(group[0].node, outline);
+      group.slice(1).forEach((duplicate) => replacements.set(duplicate.node, null));
+    }
+
+    return children
+      .map((child) => (replacements.has(child) ? (replacements.get(child) as T | null) : child))
+      .filter((child): child is T => child !== null);
+  }
+
+  /**
+   * Plain scenarios (not outlines) whose steps carry no tables or doc strings
+   */
+  private parseScenario(node: GherkinScenario, language: string): ParsedScenario | null {
+    if (
+      !getDialect(language).scenario.includes(node.keyword) ||
+      node.examples.length > 0 ||
+      node.steps.length === 0 ||
+      node.steps.some((step) => step.docString || step.dataTable)
+    ) {
+      return null;
+    }
+
+    const steps = node.steps.map((step) => step.text);
+    return {
+      node,
+      title: node.name,
+      tags: node.tags.map((tag) => tag.name),
+      steps,
+      signature: node.steps
+        .map((step) => `${step.keyword}${step.text.replace(QUOTED_VALUE, '""')}`)
+        .join('\n'),
+      values: steps.flatMap((step) => Array.from(step.matchAll(QUOTED_VALUE), (m) => m[1])),
+    };
+  }
+
+  private buildOutline(
+    group: ParsedScenario[],
+    language: string,
+    form?: FormInfo
+  ): GherkinScenario | null {
+    const [first] = group;
+    const columns: OutlineColumn[] = [];
+    const usedNames = new Set<string>(['case']);
+
+    first.values.forEach((value, position) => {
+      if (group.every((scenario) => scenario.values[position] === value)) return;
+
+      const field = this.findField(first, position, form);
+      let name = (field?.name || this.nameFromContext(first, position) || 'value')
+        .replace(/[^A-Za-z0-9_]+/g, '_')
+        .replace(/^_+|_+$/g, '');
+      if (!name) name = 'value';
+      let unique = name;
+      for (let suffix = 2; usedNames.has(unique); suffix++) {
+        unique = `${name}${suffix}`;
+      }
+      usedNames.add(unique);
+      columns.push({ position, name: unique, field });
+    });
+
+    if (columns.length === 0) {
+      return null;
+    }
+
+    const commonTags = first.tags.filter((tag) => group.every((s) => s.tags.includes(tag)));
+    const header = ['case', ...columns.map((column) => column.name)];
+    const examples: GherkinExamples[] = [];
+
+    // Scenarios with tags beyond the common ones keep them on their own Examples block
+    const blocks = new Map<string, string[][]>();
+    for (const scenario of group) {
+      const extraTags = scenario.tags.filter((tag) => !commonTags.includes(tag)).join(' ');
+      const rows = blocks.get(extraTags) || [];
+      rows.push([scenario.title, ...columns.map((column) => scenario.values[column.position])]);
+      blocks.set(extraTags, rows);
+    }
+    for (const [tags, rows] of blocks) {
+      examples.push({
+        tags: tags ? tags.split(' ').map((name) => ({ name })) : [],
+        keyword: keywordFor(language, 'examples'),
+        name: '',
+        description: '',
+        header,
+        rows,
+      });
+    }
+
+    for (const [category, rows] of this.generatedRows(group, columns, form)) {
+      examples.push({
+        tags: [],
+        keyword: keywordFor(language, 'examples'),
+        name: `Generated ${category} data`,
+        description: '',
+        header,
+        rows,
+      });
+    }
+
+    return {
+      type: 'scenario',
+      tags: commonTags.map((name) => ({ name })),
+      keyword: keywordFor(language, 'scenarioOutline'),
+      name: this.outlineTitle(group),
+      description: first.node.description,
+      steps: this.parameterizeSteps(first.node.steps, columns),
+      examples,
+      location: first.node.location,
+    };
+  }
+
+  /**
+   * Rows built from TestDataGenerator for the data categories the scenarios cover
+   */
+  private generatedRows(
+    group: ParsedScenario[],
+    columns: OutlineColumn[],
+    form?: FormInfo
+  ): Array<[DataCategory, string[][]]> {
+    if (!form || !columns.some((column) => column.field)) {
+      return [];
+    }
+
+    const context = group
+      .map((scenario) => `${scenario.title} ${scenario.tags.join(' ')}`)
+      .join(' ');
+    let categories = CATEGORY_HINTS.filter(([, hint]) => hint.test(context)).map(([c]) => c);
+    if (categories.length === 0 && VALID_HINT.test(context)) {
+      categories = ['valid'];
+    }
+
+    const data = this.dataGenerator.generateTestDataForForm(form, group[0].signature);
+    const existing = new Set(
+      group.map((scenario) => columns.map((column) => scenario.values[column.position]).join('\0'))
+    );
+    const result: Array<[DataCategory, string[][]]> = [];
+
+    for (const category of categories) {
+      const source = group.find((scenario) => this.categoryOf(scenario) === category);
+      if (!source && columns.some((column) => !column.field)) {
+        continue;
+      }
+      const values = columns.map((column) =>
+        column.field
+          ? String(data[category][column.field.name] ?? '')
+          : source!.values[column.position]
+      );
+      // Values with quotes or line breaks cannot be substituted into "<placeholder>"
+      if (values.some((value) => /["\n\r]/.test(value)) || existing.has(values.join('\0'))) {
+        continue;
+      }
+      existing.add(values.join('\0'));
+      result.push([category, [[`${category} data`, ...values]]]);
+    }
+
+    return result;
+  }
+
+  /**
+   * The data category a scenario's title and tags point to, if exactly one
+   */
+  private categoryOf(scenario: ParsedScenario): DataCategory | undefined {
+    const context = `${scenario.title} ${scenario.tags.join(' ')}`;
+    const matched = CATEGORY_HINTS.filter(([, hint]) => hint.test(context)).map(([c]) => c);
+    if (matched.length === 0 && VALID_HINT.test(context)) {
+      return 'valid';
+    }
+    return matched.length === 1 ? matched[0] : undefined;
+  }
+
+  private parameterizeSteps(steps: GherkinStep[], columns: OutlineColumn[]): GherkinStep[] {
+    let position = 0;
+    return steps.map((step) => ({
+      keyword: step.keyword,
+      text: step.text.replace(QUOTED_VALUE, (match) => {
+        const current = position++;
+        const column = columns.find((c) => c.position === current);
+        return column ? `"<${column.name}>"` : match;
+      }),
+    }));
+  }
+
+  /**
+   * The lowercased step holding the quoted value at `position`, with the value blanked out
+   */
+  private locateValue(scenario: ParsedScenario, position: number): ValueLocation | undefined {
+    let remaining = position;
+    for (const step of scenario.steps) {
+      const matches = Array.from(step.matchAll(QUOTED_VALUE));
+      if (remaining < matches.length) {
+        const { index, 0: text } = matches[remaining];
+        return {
+          text: `${step.slice(0, index)}${' '.repeat(text.length)}${step.slice(index! + text.length)}`.toLowerCase(),
+          start: index!,
+          end: index! + text.length,
+        };
+      }
+      remaining -= matches.length;
+    }
+    return undefined;
+  }
+
+  /**
+   * Characters between the value and the nearest mention of a term in its step
+   */
+  private mentionDistance(location: ValueLocation, term?: string): number {
+    const words = term?.toLowerCase().match(/[a-z0-9]+/g);
+    if (!words) return Infinity;
+
+    let distance = Infinity;
+    for (const match of location.text.matchAll(new RegExp(`\\b${words.join('\\W*')}\\b`, 'g'))) {
+      const mentionEnd = match.index! + match[0].length;
+      distance = Math.min(
+        distance,
+        mentionEnd <= location.start ? location.start - mentionEnd : match.index! - location.end
+      );
+    }
+    return distance;
+  }
+
+  /**
+   * Form field named closest to the value, by name, label or (email/password) type
+   */
+  private findField(
+    scenario: ParsedScenario,
+    position: number,
+    form?: FormInfo
+  ): FormField | undefined {
+    const location = this.locateValue(scenario, position);
+    if (!form || !location) return undefined;
+
+    let best: { field: FormField; distance: number } | undefined;
+    for (const field of form.fields) {
+      const distance = Math.min(
+        this.mentionDistance(location, field.name),
+        this.mentionDistance(location, field.label),
+        ['email', 'password'].includes(field.type)
+          ? this.mentionDistance(location, field.type)
+          : Infinity
+      );
+      if (distance < (best?.distance ?? Infinity)) {
+        best = { field, distance };
+      }
+    }
+    return best?.field;
+  }
+
+  /**
+   * Column name from the words around a value, e.g. `enters "x" as username` -> username
+   */
+  private nameFromContext(scenario: ParsedScenario, position: number): string | undefined {
+    const location = this.locateValue(scenario, position);
+    if (!location) return undefined;
+
+    let best: { noun: string; distance: number } | undefined;
+    for (const noun of CONTEXT_NOUNS) {
+      const distance = this.mentionDistance(location, noun);
+      if (distance < (best?.distance ?? Infinity)) {
+        best = { noun, distance };
+      }
+    }
+    return best?.noun;
+  }
+
+  /**
+   * Common leading words of the scenario titles, or the first title if they share too few
+   * (without its outcome words when the scenarios cover different data categories)
+   */
+  private outlineTitle(group: ParsedScenario[]): string {
+    const titles = group.map((scenario) => scenario.title.split(/\s+/));
+    const common: string[] = [];
+    for (let index = 0; index < titles[0].length; index++) {
+      const word = titles[0][index];
+      if (!titles.every((words) => words[index] === word)) break;
+      common.push(word);
+    }
+
+    const title = common.join(' ').replace(TRAILING_FILLER, '').trim();
+    if (title.split(/\s+/).length >= 2) {
+      return title;
+    }
+
+    const first = group[0].title;
+    if (new Set(group.map((scenario) => this.categoryOf(scenario))).size === 1) {
+      return first;
+    }
+    const neutral = [VALID_HINT, ...CATEGORY_HINTS.map(([, hint]) => hint)]
+      .reduce((text, hint) => text.replace(new RegExp(hint.source, 'gi'), ' '), first)
+      .replace(/\s+/g, ' ')
+      .replace(TRAILING_FILLER, '')
+      .trim();
+    return neutral ? neutral.charAt(0).toUpperCase() + neutral.slice(1) : first;
+  }
+}
+
+export const scenarioOutlineBuilder = new ScenarioOutlineBuilder();
@@ -0,0 +1,61 @@
+/**
+ * SecurityFixtureServer Tests
+ * The escaped page must pass the reflection scan and the /unsafe copy must fail it
+ */
+
+import axios from 'axios';
+import { SecurityFixtureServer } from './securityFixtureServer';
+import { SECURITY_PAYLOADS, SecurityPayload, reflectionScanner } from './securityPayloads';
+
+describe('SecurityFixtureServer', () => {
+  const server = new SecurityFixtureServer();
+  let baseUrl: string;
+
+  const submit = async (formPath: string, payload: SecurityPayload): Promise<string> => {
+    const response = await axios.get<string>(`${baseUrl}${formPath}/search`, {
+      params: { query: payload.value, email: payload.value, comment: payload.value },
+      responseType: 'text',
+    });
+    return response.data;
+  };
+
+  beforeAll(async () => {
+    baseUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  test('should serve the form on both pages', async () => {
+    for (const formPath of ['/', '/unsafe']) {
+      const response = await axios.get<string>(`${baseUrl}${formPath}`, { responseType: 'text' });
+      expect(response.data).toContain('<form id="search-form"');
+    }
+  });
+
+  test.each(SECURITY_PAYLOADS.map((p) => [p.id, p]))(
+    'should escape the %s payload on the safe page',
+    async (_, payload) => {
+      expect(reflectionScanner.scan(await submit('', payload), [payload])).toEqual([]);
+    }
+  );
+
+  test.each(SECURITY_PAYLOADS.filter((p) => p.probe).map((p) => [p.id, p]))(
+    'should reflect the %s payload as markup on the unsafe page',
+    async (_, payload) => {
+      expect(reflectionScanner.scan(await submit('/unsafe', payload), [payload])).toContainEqual(
+        expect.objectContaining({ payloadId: payload.id, kind: 'unescaped-markup' })
+      );
+    }
+  );
+
+  test('should leak a SQL error on the unsafe page for an unbalanced quote', async () => {
+    const payload = SECURITY_PAYLOADS.find((p) => p.id === 'sql-quote')!;
+
+    expect(reflectionScanner.scan(await submit('', payload), [payload])).toEqual([]);
+    expect(reflectionScanner.scan(await submit('/unsafe', payload), [payload])).toContainEqual(
+      expect.objectContaining({ kind: 'error-leak', detail: expect.stringContaining('SQL error') })
+    );
+  });
+});
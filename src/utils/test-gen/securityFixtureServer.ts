@@ -0,0 +1,133 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Local fixture page for the security scenario type
+ *
+ * Serves a search/comment form whose submitted values are echoed on a result page. Under
+ * `/` the values are HTML-escaped; under `/unsafe` they are written into the page as is
+ * and an unbalanced quote produces a database error, so both outcomes of the security
+ * payload checks can be exercised without a real application.
+ *
+ * Standalone usage:
+ *   npx ts-node src/utils/test-gen/securityFixtureServer.ts --port 8080
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
+export class SecurityFixtureServer {
+  private server: http.Server | null = null;
+
+  /**
+   * Starts listening; port 0 picks a free port
+   *
+   * @returns Base URL of the safe form page (append /unsafe for the vulnerable one)
+   */
+  async start(port = 0): Promise<string> {
+    // The form submits with GET; the long Unicode payload in every field exceeds Node's
+    // default 16 KiB header limit once percent-encoded
+    this.server = http.createServer({ maxHeaderSize: 64 * 1024 }, (req, res) =>
+      this.handle(req, res)
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const url = new URL(req.url || '/', 'http://fixture');
+    const unsafe = url.pathname.startsWith('/unsafe');
+    const path = unsafe ? url.pathname.slice('/unsafe'.length) || '/' : url.pathname;
+
+    if (req.method !== 'GET' || !['/', '/search'].includes(path)) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+
+    const body =
+      path === '/search' ? this.renderResults(url.searchParams, unsafe) : this.renderForm(unsafe);
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(`<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Security fixture</title></head>
+<body>
+<h1>Security fixture</h1>
+${body}
+</body>
+</html>`);
+  }
+
+  private renderForm(unsafe: boolean): string {
+    return `<form id="search-form" method="GET" action="${unsafe ? '/unsafe' : ''}/search">
+  <label for="query">Search</label>
+  <input id="query" name="query" type="text">
+  <label for="email">Email</label>
+  <input id="email" name="email" type="text">
+  <label for="comment">Comment</label>
+  <textarea id="comment" name="comment"></textarea>
+  <button id="submit" type="submit">Submit</button>
+</form>`;
+  }
+
+  private renderResults(params: URLSearchParams, unsafe: boolean): string {
+    const render = unsafe ? (value: string) => value : escapeHtml;
+    const rows = Array.from(params)
+      .map(([name, value]) => `  <li><strong>${escapeHtml(name)}</strong>: ${render(value)}</li>`)
+      .join('\n');
+    const queryError =
+      unsafe && (params.get('query') || '').split("'").length % 2 === 0
+        ? `\n<p class="error">You have an error in your SQL syntax near '${params.get('query')}'</p>`
+        : '';
+
+    return `<div id="results" class="success">
+<p>Thanks, we received:</p>
+<ul>
+${rows}
+</ul>
+<input id="query" name="query" type="text" value="${render(params.get('query') || '')}">
+</div>${queryError}`;
+  }
+}
+
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const portIndex = args.indexOf('--port');
+  const server = new SecurityFixtureServer();
+
+  server
+    .start(portIndex >= 0 ? parseInt(args[portIndex + 1], 10) : 8080)
+    .then((baseUrl) => {
+      console.log(
+        `🧪 Security fixture listening on ${baseUrl} (vulnerable copy: ${baseUrl}/unsafe)`
+      );
+      const shutdown = () => server.stop().then(() => process.exit(0));
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+    })
+    .catch((error) => {
+      console.error('❌ Failed to start security fixture server:', error);
+      process.exit(1);
+    });
+}
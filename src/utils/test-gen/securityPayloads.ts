@@ -0,0 +1,247 @@
+import { load, CheerioAPI } from 'cheerio';
+import { FormField } from '../dom/domAnalyzer';
+import { ValidationError } from '../errors';
+
+export type PayloadCategory = 'xss' | 'sql' | 'unicode' | 'format-string';
+
+export interface SecurityPayload {
+  id: string;
+  category: PayloadCategory;
+  value: string;
+  description: string;
+  /**
+   * Element the payload creates when it is rendered as markup instead of text; finding it in
+   * the DOM proves unescaped reflection
+   */
+  probe?: string;
+  /** Text that appears only if the server evaluated the payload as a template expression */
+  evaluated?: string;
+}
+
+export type FindingKind = 'unescaped-markup' | 'evaluated' | 'error-leak';
+
+export interface SecurityFinding {
+  payloadId?: string;
+  kind: FindingKind;
+  detail: string;
+}
+
+/**
+ * Curated injection payloads. XSS payloads carry a data-probe attribute so an injected
+ * element can be told apart from the payload shown as escaped text; none of them are
+ * destructive if they reach a database or template engine.
+ */
+export const SECURITY_PAYLOADS: SecurityPayload[] = [
+  {
+    id: 'xss-script',
+    category: 'xss',
+    value: '<script data-probe="xss-script">window.__probe = 1</script>',
+    description: 'inline script tag',
+    probe: '[data-probe="xss-script"]',
+  },
+  {
+    id: 'xss-img-onerror',
+    category: 'xss',
+    value: '<img src=x onerror=alert(1) data-probe=xss-img-onerror>',
+    description: 'event handler on a broken image',
+    probe: '[data-probe="xss-img-onerror"]',
+  },
+  {
+    id: 'xss-svg-onload',
+    category: 'xss',
+    value: '<svg onload=alert(1) data-probe=xss-svg-onload></svg>',
+    description: 'SVG onload handler',
+    probe: '[data-probe="xss-svg-onload"]',
+  },
+  {
+    id: 'xss-attribute-breakout',
+    category: 'xss',
+    value: '"><img src=x onerror=alert(1) data-probe=xss-attribute-breakout>',
+    description: 'closes a quoted attribute and opens a tag',
+    probe: '[data-probe="xss-attribute-breakout"]',
+  },
+  {
+    id: 'xss-script-breakout',
+    category: 'xss',
+    value: '</script><img src=x onerror=alert(1) data-probe=xss-script-breakout>',
+    description: 'closes a script block the value is embedded in',
+    probe: '[data-probe="xss-script-breakout"]',
+  },
+  {
+    id: 'xss-javascript-url',
+    category: 'xss',
+    value: '<a href="javascript:alert(1)" data-probe="xss-javascript-url">link</a>',
+    description: 'javascript: URL',
+    probe: '[data-probe="xss-javascript-url"]',
+  },
+  {
+    id: 'sql-quote',
+    category: 'sql',
+    value: "'",
+    description: 'unbalanced single quote',
+  },
+  {
+    id: 'sql-tautology',
+    category: 'sql',
+    value: "' OR '1'='1' --",
+    description: 'always-true condition',
+  },
+  {
+    id: 'sql-comment',
+    category: 'sql',
+    value: "admin'-- ",
+    description: 'comments out the rest of the query',
+  },
+  {
+    id: 'sql-union',
+    category: 'sql',
+    value: "' UNION SELECT NULL--",
+    description: 'UNION-based probe',
+  },
+  {
+    id: 'unicode-overlong',
+    category: 'unicode',
+    value: '%C0%BCscript%C0%BE%C0%AE%C0%AE%C0%AF',
+    description: 'overlong UTF-8 encodings of <, > and ../',
+  },
+  {
+    id: 'unicode-fullwidth',
+    category: 'unicode',
+    value: '＜script＞alert(1)＜/script＞',
+    description: 'fullwidth angle brackets that NFKC-normalize to < and >',
+  },
+  {
+    id: 'unicode-bidi',
+    category: 'unicode',
+    value: 'user\u202Egnp.exe\u200B\uFEFF',
+    description: 'right-to-left override and zero-width characters',
+  },
+  {
+    id: 'unicode-long',
+    category: 'unicode',
+    value: `${'\u{1F600}'.repeat(300)}${'a\u0301'.repeat(300)}`,
+    description: 'astral-plane and combining characters beyond typical length limits',
+  },
+  {
+    id: 'format-printf',
+    category: 'format-string',
+    value: '%s%s%s%s%n%x%x%x',
+    description: 'printf conversion specifiers',
+  },
+  {
+    id: 'format-template',
+    category: 'format-string',
+    value: "{{'wdio'+'-probe'}}${'wdio'+'-probe'}#{'wdio'+'-probe'}",
+    description: 'template expressions (Jinja/Angular, JS template literal, Ruby)',
+    evaluated: 'wdio-probe',
+  },
+  {
+    id: 'format-placeholder',
+    category: 'format-string',
+    value: '{0}{1}{__proto__}%(name)s',
+    description: 'positional and named placeholders',
+  },
+];
+
+/** Step that types a payload (by id) into every text field */
+export const SECURITY_FILL_STEP = /\bfills? every text field with the "[^"]*" security payload\b/i;
+
+/** Step that checks the resulting page for the payload (by id) */
+export const SECURITY_REFLECTION_STEP = /\bsecurity payload should not be reflected\b/i;
+
+/** Fields that accept free text and receive every payload */
+export const TEXT_FIELD_SELECTOR = [
+  'input:not([type])',
+  ...'text search email url tel password'.split(' ').map((type) => `input[type="${type}"]`),
+  'textarea',
+].join(', ');
+
+/** FormField types of text fields; an input without a type attribute reports "input" */
+const TEXT_FIELD_TYPES = new Set('input text search email url tel password textarea'.split(' '));
+
+/**
+ * Server error output that an injection can surface (database errors, stack traces)
+ */
+const ERROR_SIGNATURES: Array<[string, RegExp]> = [
+  [
+    'SQL error',
+    /SQL syntax|SQLSTATE|ORA-\d{5}|sqlite3?\.\w*Error|PG::\w+Error|syntax error at or near|unterminated quoted string|Unclosed quotation mark/i,
+  ],
+  ['stack trace', /Traceback \(most recent call last\)|\bat [\w.$<>]+ \([^)]*:\d+:\d+\)/],
+  ['server error', /Internal Server Error|Whitelabel Error Page/i],
+];
+
+export function isTextField(field: FormField): boolean {
+  return TEXT_FIELD_TYPES.has(field.type.toLowerCase());
+}
+
+export function getSecurityPayload(id: string): SecurityPayload {
+  const payload = SECURITY_PAYLOADS.find((p) => p.id === id);
+  if (!payload) {
+    throw new ValidationError(`Unknown security payload "${id}"`, {
+      available: SECURITY_PAYLOADS.map((p) => p.id),
+    });
+  }
+  return payload;
+}
+
+/**
+ * Checks the DOM after payloads were submitted: a payload's probe element means it was
+ * rendered as markup, an evaluated marker means it ran as a template expression, and
+ * database errors or stack traces mean the input reached a query or crashed the server.
+ * Works on an HTML string, a loaded cheerio document or `await browser.getPageSource()`.
+ */
+export class ReflectionScanner {
+  scan(
+    source: string | CheerioAPI,
+    payloads: SecurityPayload[] = SECURITY_PAYLOADS
+  ): SecurityFinding[] {
+    const $ = typeof source === 'string' ? load(source) : source;
+    const text = $('body').text();
+    const findings: SecurityFinding[] = [];
+
+    for (const payload of payloads) {
+      if (payload.probe && $(payload.probe).length > 0) {
+        findings.push({
+          payloadId: payload.id,
+          kind: 'unescaped-markup',
+          detail: `rendered as a <${$(payload.probe).prop('tagName')?.toLowerCase()}> element instead of text (${payload.description})`,
+        });
+      }
+      if (payload.evaluated && text.includes(payload.evaluated)) {
+        findings.push({
+          payloadId: payload.id,
+          kind: 'evaluated',
+          detail: `evaluated as a template expression ("${payload.evaluated}" is on the page)`,
+        });
+      }
+    }
+
+    for (const [name, signature] of ERROR_SIGNATURES) {
+      const match = text.match(signature);
+      if (match) {
+        findings.push({ kind: 'error-leak', detail: `${name} on the page: "${match[0]}"` });
+      }
+    }
+
+    return findings;
+  }
+
+  formatFindings(findings: SecurityFinding[]): string {
+    return findings
+      .map((f) => `[${f.kind}]${f.payloadId ? ` ${f.payloadId}:` : ''} ${f.detail}`)
+      .join('\n');
+  }
+
+  /**
+   * Throws with every finding listed, for use in generated step definitions
+   */
+  assertNotReflected(source: string | CheerioAPI, payloadId?: string): void {
+    const findings = this.scan(source, payloadId ? [getSecurityPayload(payloadId)] : undefined);
+    if (findings.length > 0) {
+      throw new Error(`${findings.length} security finding(s):\n${this.formatFindings(findings)}`);
+    }
+  }
+}
+
+export const reflectionScanner = new ReflectionScanner();
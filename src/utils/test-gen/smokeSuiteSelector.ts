@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ScenarioType } from '../ai/promptTemplates';
+import { ScenarioClassifier, scenarioClassifier } from './scenarioClassifier';
+import { getPickles, getScenarios, parseGherkin } from './gherkinAst';
+import { ScenarioResult, TestFailureTracker } from './testFailureTracker';
+
+export interface SmokeCandidate {
+  /** Feature file relative to the working directory */
+  file: string;
+  line: number;
+  featureName: string;
+  scenario: string;
+  type: ScenarioType;
+  priority: number;
+  /** Share of recorded runs that failed; 0 without history */
+  failureRate: number;
+  runs: number;
+  estimatedMs: number;
+  /** False when the estimate is not based on the scenario's own recorded durations */
+  durationKnown: boolean;
+  /** Priority weighted by failure rate; a scenario that always failed counts double */
+  risk: number;
+}
+
+export interface SmokeExclusion extends SmokeCandidate {
+  reason: string;
+}
+
+export interface SmokeSelection {
+  generatedAt: string;
+  budgetMinutes: number;
+  estimatedMinutes: number;
+  /** wdio --spec filters, one `file:line` per selected scenario */
+  specs: string[];
+  selected: SmokeCandidate[];
+  excluded: SmokeExclusion[];
+}
+
+export const DEFAULT_SMOKE_DIR = 'reports/smoke';
+export const DEFAULT_SMOKE_BUDGET_MINUTES = 5;
+
+/** Estimate per pickle when no scenario has a recorded duration yet */
+export const DEFAULT_SCENARIO_DURATION_MS = 30000;
+
+function formatSeconds(ms: number): string {
+  return `${Math.round(ms / 1000)}s`;
+}
+
+/**
+ * Risk-based smoke suite selection
+ *
+ * Every scenario in the feature files is typed and prioritized by ScenarioClassifier (from its
+ * title and tags), weighted by its failure rate and estimated from its mean duration, both from
+ * the run history TestFailureTracker records. Scenarios are taken in order of risk while they
+ * fit the time budget; scenarios without a recorded duration are estimated with the median of
+ * the known ones. Scenario Outlines are selected as a whole.
+ */
+export class SmokeSuiteSelector {
+  constructor(private readonly classifier: ScenarioClassifier = scenarioClassifier) {}
+
+  collect(featureFiles: string[], results: ScenarioResult[]): SmokeCandidate[] {
+    const history = new Map(
+      results.map((result) => [`${result.featureName}\0${result.scenario}`, result])
+    );
+    const knownDurations = results
+      .map((result) => result.averageDurationMs)
+      .filter((duration): duration is number => duration !== undefined)
+      .sort((a, b) => a - b);
+    const fallbackMs = knownDurations.length
+      ? knownDurations[Math.floor(knownDurations.length / 2)]
+      : DEFAULT_SCENARIO_DURATION_MS;
+
+    return featureFiles.flatMap((file) => {
+      const feature = parseGherkin(fs.readFileSync(file, 'utf-8')).document?.feature;
+      if (!feature) return [];
+
+      const featureTags = feature.tags.map((tag) => tag.name);
+      return getScenarios(feature).map((scenario) => {
+        const pickles = getPickles(scenario);
+        const recorded = pickles
+          .map((pickle) => history.get(`${feature.name}\0${pickle.name}`))
+          .filter((result): result is ScenarioResult => result !== undefined);
+        const timed = recorded.filter((result) => result.averageDurationMs !== undefined);
+
+        const runs = recorded.reduce((sum, result) => sum + (result.runs ?? 1), 0);
+        const failedRuns = recorded.reduce(
+          (sum, result) => sum + (result.failedRuns ?? (result.status === 'failed' ? 1 : 0)),
+          0
+        );
+        const perPickleMs = timed.length
+          ? timed.reduce((sum, result) => sum + result.averageDurationMs!, 0) / timed.length
+          : fallbackMs;
+
+        const tags = [...featureTags, ...scenario.tags.map((tag) => tag.name)];
+        const type = this.classifier.classifyByKeywords(`${scenario.name} ${tags.join(' ')}`);
+        const priority = this.classifier.calculatePriority(type, scenario.name);
+        const failureRate = runs ? failedRuns / runs : 0;
+
+        return {
+          file: path.relative(process.cwd(), file),
+          line: scenario.location?.line || 0,
+          featureName: feature.name,
+          scenario: scenario.name,
+          type,
+          priority,
+          failureRate,
+          runs,
+          estimatedMs: Math.round(perPickleMs * pickles.length),
+          durationKnown: timed.length > 0,
+          risk: priority * (1 + failureRate),
+        };
+      });
+    });
+  }
+
+  /**
+   * Highest-risk scenarios first (shorter first on ties), each taken if it still fits
+   */
+  select(
+    candidates: SmokeCandidate[],
+    budgetMinutes: number = DEFAULT_SMOKE_BUDGET_MINUTES
+  ): SmokeSelection {
+    const ranked = [...candidates].sort((a, b) => b.risk - a.risk || a.estimatedMs - b.estimatedMs);
+    const budgetMs = budgetMinutes * 60000;
+    const selected: SmokeCandidate[] = [];
+    const excluded: SmokeExclusion[] = [];
+    let usedMs = 0;
+
+    for (const candidate of ranked) {
+      if (usedMs + candidate.estimatedMs <= budgetMs) {
+        selected.push(candidate);
+        usedMs += candidate.estimatedMs;
+        continue;
+      }
+      excluded.push({
+        ...candidate,
+        reason: `needs ~${formatSeconds(candidate.estimatedMs)}${
+          candidate.durationKnown ? '' : ' (estimated)'
+        }, only ${formatSeconds(budgetMs - usedMs)} of the budget left${
+          selected.length > 0 ? ` after ${selected.length} higher-risk scenario(s)` : ''
+        }`,
+      });
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      budgetMinutes,
+      estimatedMinutes: Math.round((usedMs / 60000) * 10) / 10,
+      specs: selected.map((candidate) => `${candidate.file}:${candidate.line}`),
+      selected,
+      excluded,
+    };
+  }
+
+  /**
+   * Selects from the feature files using the run history TestFailureTracker has recorded
+   */
+  selectFromTracker(featureFiles: string[], budgetMinutes?: number): SmokeSelection {
+    return this.select(
+      this.collect(featureFiles, TestFailureTracker.getScenarioResults()),
+      budgetMinutes
+    );
+  }
+
+  /**
+   * Writes smoke-selection.json (specs, selected and excluded scenarios) to the output directory
+   *
+   * @returns Path of the written file
+   */
+  writeSelection(selection: SmokeSelection, outputDir: string = DEFAULT_SMOKE_DIR): string {
+    const dir = path.resolve(outputDir);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const file = path.join(dir, 'smoke-selection.json');
+    fs.writeFileSync(file, JSON.stringify(selection, null, 2) + '\n', 'utf-8');
+    return file;
+  }
+
+  formatExplanation(selection: SmokeSelection): string {
+    const describe = (candidate: SmokeCandidate) =>
+      `${candidate.featureName} > ${candidate.scenario} [${candidate.type}, priority ${candidate.priority}, ${Math.round(
+        candidate.failureRate * 100
+      )}% failed of ${candidate.runs} run(s), ~${formatSeconds(candidate.estimatedMs)}]`;
+
+    return [
+      `Selected ${selection.selected.length} scenario(s), ~${selection.estimatedMinutes} of ${selection.budgetMinutes} min:`,
+      ...selection.selected.map((candidate) => `  + ${describe(candidate)}`),
+      ...(selection.excluded.length > 0
+        ? [
+            `Excluded ${selection.excluded.length} scenario(s):`,
+            ...selection.excluded.map(
+              (exclusion) => `  - ${describe(exclusion)}: ${exclusion.reason}`
+            ),
+          ]
+        : []),
+    ].join('\n');
+  }
+}
+
+export const smokeSuiteSelector = new SmokeSuiteSelector();
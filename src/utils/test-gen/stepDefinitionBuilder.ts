@@ -5,11 +5,25 @@ try {
 }
 import { writeFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
 import * as path from 'path';
-import { OllamaClient } from '../ai/ollamaClient';
+import { OllamaClient, OllamaOptions, createOllamaClient } from '../ai/ollamaClient';
+import { JsonSchema } from '../ai/jsonSchema';
+import { classifyStepIntent, exampleLibrary } from '../ai/exampleLibrary';
+import { UNTRUSTED_CONTENT_NOTICE, checkOutputFormat, delimitUntrusted } from '../ai/promptSafety';
+import { getPromptTelemetry } from '../ai/promptTelemetry';
+import { CassetteMissError, ValidationError } from '../errors';
 import { getDOMSnapshot } from '../dom/domParser';
 import { load } from 'cheerio';
 import { stepPatternGenerator } from './stepPatternGenerator';
 import { stepQualityValidator } from './qualityValidator';
+import { codeSafetyScanner } from './codeSafetyScanner';
+import { formatDiagnostic, getAllSteps, parseGherkin } from './gherkinAst';
+import { getSemanticMatcher } from '../ai/semanticMatcher';
+import { ACCESSIBILITY_STEP } from '../dom/accessibilityChecker';
+import {
+  SECURITY_FILL_STEP,
+  SECURITY_REFLECTION_STEP,
+  TEXT_FIELD_SELECTOR,
+} from './securityPayloads';
 
 const STEP_DEFINITIONS_PATH = path.resolve('src/step-definitions');
 const GENERATED_STEPS_FILE = path.join(STEP_DEFINITIONS_PATH, 'generatedSteps.ts');
@@ -57,26 +71,31 @@ function normalizeStepForDedup(stepText: string): string {
 }
 
 function extractStepsFromFeature(featureContent: string): string[] {
+  const { document, diagnostics } = parseGherkin(featureContent);
+  if (!document?.feature) {
+    throw new ValidationError(
+      diagnostics.length > 0
+        ? `Invalid Gherkin in feature file: ${diagnostics.map(formatDiagnostic).join('; ')}`
+        : 'Feature file has no "Feature:" block',
+      { diagnostics }
+    );
+  }
+
   const steps: string[] = [];
   const normalizedSteps = new Set<string>();
-  const lines = featureContent.split('\n');
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed.match(/^\s*(Given|When|Then|And|But)\s+/)) {
-      const stepText = trimmed.replace(/^\s*(Given|When|Then|And|But)\s+/, '').trim();
-
-      if (stepText) {
-        // Normalize the step to check for duplicates with different parameter values
-        const normalized = normalizeStepForDedup(stepText);
-
-        if (!normalizedSteps.has(normalized)) {
-          steps.push(stepText);
-          normalizedSteps.add(normalized);
-        } else {
-          console.log(`ℹ️  Skipping duplicate step pattern: "${stepText}"`);
-        }
-      }
+
+  for (const step of getAllSteps(document.feature)) {
+    const stepText = step.text.trim();
+    if (!stepText) continue;
+
+    // Normalize the step to check for duplicates with different parameter values
+    const normalized = normalizeStepForDedup(stepText);
+
+    if (!normalizedSteps.has(normalized)) {
+      steps.push(stepText);
+      normalizedSteps.add(normalized);
+    } else {
+      console.log(`ℹ️  Skipping duplicate step pattern: "${stepText}"`);
     }
   }
 
@@ -177,6 +196,19 @@ function getPageElements(): PageElementInfo[] {
   }
 }
 
+const DISCOVERED_SCENARIOS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    scenarios: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      maxItems: 5,
+    },
+  },
+  required: ['scenarios'],
+};
+
 /**
  * Uses Ollama to analyze the application and discover possible test scenarios
  */
@@ -203,14 +235,16 @@ async function discoverScenariosWithOllama(
 
     const prompt = `Analyze this web application and suggest test scenarios.
 
+${UNTRUSTED_CONTENT_NOTICE}
+
 Application Details:
 - URL: ${url}
-- Page Title: ${pageTitle}
+${delimitUntrusted(`- Page Title: ${pageTitle}
 - Forms: ${forms}
 - Input Fields: ${inputs}
 - Buttons: ${buttons}
 - Links: ${links}
-- Page Headings: ${headings || 'None'}
+- Page Headings: ${headings || 'None'}`)}
 
 Based on this application structure, suggest 3-5 additional test scenarios that should be covered beyond the obvious ones. 
 Focus on:
@@ -220,26 +254,21 @@ Focus on:
 4. Accessibility testing
 5. Boundary conditions
 
-Return ONLY a simple list of scenario titles (one per line), like:
-- Scenario: Test X
-- Scenario: Test Y
-
-Do NOT include Gherkin syntax, just the scenario descriptions.`;
+Return the scenario titles as plain descriptions, without Gherkin syntax or a "Scenario:" prefix.`;
 
-    const response = await ollamaClient.generateText(prompt, {
-      temperature: 0.5,
-      max_tokens: 300,
-    });
+    const result = await ollamaClient.generateStructured<{ scenarios: string[] }>(
+      prompt,
+      DISCOVERED_SCENARIOS_SCHEMA,
+      { temperature: 0.5, max_tokens: 300, priority: 'bulk', promptType: 'scenario-discovery' }
+    );
 
-    // Extract scenario suggestions
-    const scenarios = response
-      .split('\n')
-      .filter((line) => line.trim().length > 0)
-      .map((line) => line.replace(/^[-*]\s*Scenario:\s*/i, '').trim())
+    const scenarios = result.scenarios
+      .map((line) => line.replace(/^[-*]?\s*Scenario:\s*/i, '').trim())
       .filter((line) => line.length > 10);
 
     return scenarios.slice(0, 5); // Limit to 5 suggestions
   } catch (error) {
+    if (error instanceof CassetteMissError) throw error;
     console.warn(
       '⚠️ Could not discover scenarios with Ollama:',
       error instanceof Error ? error.message : error
@@ -322,7 +351,7 @@ async function analyzeApplicationContext(url: string, dom?: string): Promise<str
     });
 
     return elements.length > 0
-      ? `Application Elements:\n${elements.join('\n')}`
+      ? `Application Elements:\n${delimitUntrusted(elements.join('\n'))}`
       : 'No interactive elements found';
   } catch (error) {
     return `Error analyzing DOM: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -399,18 +428,38 @@ async function generateWithRetry(
 ): Promise<string> {
   let lastError: Error | null = null;
 
+  // Only accepted implementations are cached, so a retry asks the model again
+  const options: OllamaOptions = {
+    temperature: 0.1,
+    max_tokens: 500,
+    priority: 'bulk',
+    promptType: 'step-implementation',
+    deferCache: true,
+  };
+
   while (retries-- > 0) {
     try {
-      const result = await ollamaClient.generateText(prompt, {
-        temperature: 0.1,
-        max_tokens: 500,
-      });
+      const result = await ollamaClient.generateText(prompt, options);
 
       const cleaned = cleanImplementation(result);
+      const issues = checkOutputFormat(cleaned, 'step-code');
+      const quality = stepQualityValidator.validateStepImplementation(cleaned);
+      getPromptTelemetry()?.recordValidation('step-implementation', prompt, {
+        passed: issues.length === 0 && quality.passed,
+        score: quality.score,
+        issues: [...issues, ...quality.issues],
+      });
+      if (issues.length > 0) {
+        console.warn(`⚠️ Rejected generated implementation: ${issues.join('; ')}`);
+        continue;
+      }
+
       if (validateTypeScript(cleaned)) {
+        ollamaClient.cacheResponse(prompt, options, result);
         return cleaned;
       }
     } catch (error) {
+      if (error instanceof CassetteMissError) throw error;
       lastError = error as Error;
     }
   }
@@ -451,18 +500,42 @@ async function generateStepImplementation(
   const pageElements = context?.pageElements || getPageElements();
   const applicationContext = context?.applicationContext || '';
 
-  // Build element reference string
+  // Accessibility and security steps call the built-in checkers instead of asking the model
+  if (
+    ACCESSIBILITY_STEP.test(step) ||
+    SECURITY_FILL_STEP.test(step) ||
+    SECURITY_REFLECTION_STEP.test(step)
+  ) {
+    return generateFallbackImplementation(step, stepType, parameters, pageElements);
+  }
+
+  // Build element reference string; names, selectors and descriptions come from the page
   const elementReferences =
     pageElements.length > 0
-      ? `\nAvailable Page Elements (use these selectors in your code):\n${pageElements.map((el) => `  - ${el.name}: selector "${el.selector}" (${el.description})`).join('\n')}\n`
+      ? `\nAvailable Page Elements (use these selectors in your code):\n${delimitUntrusted(pageElements.map((el) => `  - ${el.name}: selector "${el.selector}" (${el.description})`).join('\n'))}\n`
       : '';
 
+  // Point the model at the page-object getter the step most likely refers to
+  const [bestElement] = await getSemanticMatcher().rank(
+    step,
+    pageElements,
+    (el) => `${el.name} ${el.description}`,
+    { limit: 1, minScore: 0.3 }
+  );
+  const elementHint = bestElement
+    ? `Most relevant page element for this step: generatedPage.${bestElement.item.name}\n`
+    : '';
+
+  const goldenExamples = exampleLibrary.formatForPrompt(
+    exampleLibrary.find('step', { intent: classifyStepIntent(step), text: step })
+  );
+
   const prompt = `You are an expert WebdriverIO test automation engineer. Generate ONLY the code implementation for this step.
 
 Step to implement: "${step}"
 Step Type: ${stepType}
 Function Parameters: ${parameters.length > 0 ? parameters.join(', ') : 'none'}
-${elementReferences}
+${elementReferences || applicationContext ? `\n${UNTRUSTED_CONTENT_NOTICE}\n` : ''}${elementReferences}${elementHint}
 ${applicationContext ? `\nApplication Context:\n${applicationContext}\n` : ''}
 
 CRITICAL RULES:
@@ -501,7 +574,7 @@ try {
   throw new Error(\`Button click failed: \${errorMessage}\`);
 }
 
-Now generate the implementation for: "${step}"`;
+${goldenExamples}Now generate the implementation for: "${step}"`;
 
   try {
     let implementation = await generateWithRetry(prompt, ollamaClient, 3);
@@ -512,8 +585,18 @@ Now generate the implementation for: "${step}"`;
       implementation = `try {\n  ${trimmed}\n} catch (error) {\n  const errorMessage = error instanceof Error ? error.message : String(error);\n  throw new Error(\`Step execution failed: \${errorMessage}\`);\n}`;
     }
 
+    const scan = codeSafetyScanner.scan(implementation);
+    if (!scan.safe) {
+      const quarantinePath = codeSafetyScanner.quarantine(step, implementation, scan.violations);
+      console.warn(`🛡️ Rejected unsafe implementation for "${step}":`);
+      console.warn(codeSafetyScanner.formatViolations(scan.violations).replace(/^/gm, '   '));
+      console.warn(`   → Quarantined to ${quarantinePath}, using fallback implementation`);
+      return generateFallbackImplementation(step, stepType, parameters, pageElements);
+    }
+
     return implementation;
   } catch (error) {
+    if (error instanceof CassetteMissError) throw error;
     console.warn(`⚠️ AI generation failed for "${step}": ${(error as Error).message}`);
     console.warn(`   → Using fallback implementation`);
     return generateFallbackImplementation(step, stepType, parameters, pageElements);
@@ -528,6 +611,42 @@ function generateFallbackImplementation(
 ): string {
   const lowerStep = step.toLowerCase();
 
+  // Accessibility rule check on the live page
+  if (ACCESSIBILITY_STEP.test(step)) {
+    return `try {
+  accessibilityChecker.assertNoViolations(await browser.getPageSource());
+} catch (error) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  throw new Error(\`Accessibility check failed: \${errorMessage}\`);
+}`;
+  }
+
+  // Security payloads: typed into every text field, then looked for in the resulting page
+  if (SECURITY_FILL_STEP.test(step)) {
+    const payloadParam = parameters[0] || 'payloadId';
+    return `try {
+  const payload = getSecurityPayload(${payloadParam});
+  for (const field of await browser.$$('${TEXT_FIELD_SELECTOR}')) {
+    if (await field.isDisplayed()) {
+      await field.setValue(payload.value);
+    }
+  }
+} catch (error) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  throw new Error(\`Filling security payload failed: \${errorMessage}\`);
+}`;
+  }
+
+  if (SECURITY_REFLECTION_STEP.test(step)) {
+    const payloadParam = parameters[0] || 'payloadId';
+    return `try {
+  reflectionScanner.assertNotReflected(await browser.getPageSource(), ${payloadParam});
+} catch (error) {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  throw new Error(\`Security check failed: \${errorMessage}\`);
+}`;
+  }
+
   // Navigation Steps
   if (
     stepType === 'Given' &&
@@ -802,6 +921,8 @@ function generateStepDefinitionsFile(stepDefinitions: StepDefinition[]): string
   const imports = `import { Given, When, Then } from "@wdio/cucumber-framework";
 import { expect, browser, $ } from '@wdio/globals';
 import dotenv from 'dotenv';
+import { accessibilityChecker } from '../utils/dom/accessibilityChecker';
+import { getSecurityPayload, reflectionScanner } from '../utils/test-gen/securityPayloads';
 
 // Import available page objects
 let loginPage: any, dashboardPage: any, errorPage: any, generatedPage: any;
@@ -860,7 +981,7 @@ export async function buildStepDefinitions(
     throw new Error('No steps found in feature file');
   }
 
-  const ollamaClient = new OllamaClient();
+  const ollamaClient = createOllamaClient();
   const stepDefinitions: StepDefinition[] = [];
 
   // Analyze application context for better step generation
@@ -887,6 +1008,7 @@ export async function buildStepDefinitions(
         }
       }
     } catch (error) {
+      if (error instanceof CassetteMissError) throw error;
       console.warn(
         '⚠️ Could not analyze application context:',
         error instanceof Error ? error.message : error
@@ -1,4 +1,10 @@
 import { FormField, FormInfo } from '../dom/domAnalyzer';
+import {
+  PayloadCategory,
+  SECURITY_PAYLOADS,
+  SecurityPayload,
+  isTextField,
+} from './securityPayloads';
 
 export interface TestDataSet {
   valid: Record<string, any>;
@@ -7,6 +13,23 @@ export interface TestDataSet {
   empty: Record<string, any>;
 }
 
+/**
+ * Pseudo-random numbers in [0, 1) that repeat for the same seed (FNV-1a hash into mulberry32)
+ */
+export function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 export class TestDataGenerator {
   private commonPasswords = ['Pass@123', 'Test123!', 'Secure@Pass123'];
   private commonUsernames = ['testuser', 'automation', 'qatester'];
@@ -15,11 +38,16 @@ export class TestDataGenerator {
   private shortPasswords = ['Pass1', 'Pwd123', 'Sec1'];
   private specialCharacters = [
     '!@#$%^&*()',
-    '<script>alert(1)</script>',
-    '"; DROP TABLE users; --',
+    ...SECURITY_PAYLOADS.filter((p) => ['xss', 'sql'].includes(p.category)).map((p) => p.value),
   ];
 
-  generateTestDataForForm(form: FormInfo): TestDataSet {
+  /**
+   * Valid, invalid, boundary and empty data for every field of the form
+   *
+   * @param seed - Picks the same values on every run when given
+   */
+  generateTestDataForForm(form: FormInfo, seed?: string): TestDataSet {
+    const random = seed === undefined ? Math.random : seededRandom(seed);
     const testData: TestDataSet = {
       valid: {},
       invalid: {},
@@ -28,24 +56,24 @@ export class TestDataGenerator {
     };
 
     for (const field of form.fields) {
-      testData.valid[field.name] = this.generateValidData(field);
-      testData.invalid[field.name] = this.generateInvalidData(field);
-      testData.boundary[field.name] = this.generateBoundaryData(field);
+      testData.valid[field.name] = this.generateValidData(field, random);
+      testData.invalid[field.name] = this.generateInvalidData(field, random);
+      testData.boundary[field.name] = this.generateBoundaryData(field, random);
       testData.empty[field.name] = this.generateEmptyData(field);
     }
 
     return testData;
   }
 
-  private generateValidData(field: FormField): string {
+  private generateValidData(field: FormField, random: () => number = Math.random): string {
     const type = field.type.toLowerCase();
 
     if (type === 'email') {
-      return this.commonEmails[Math.floor(Math.random() * this.commonEmails.length)];
+      return this.commonEmails[Math.floor(random() * this.commonEmails.length)];
     }
 
     if (type === 'password') {
-      return this.commonPasswords[Math.floor(Math.random() * this.commonPasswords.length)];
+      return this.commonPasswords[Math.floor(random() * this.commonPasswords.length)];
     }
 
     if (type === 'number') {
@@ -79,18 +107,18 @@ export class TestDataGenerator {
 
     return field.placeholder
       ? field.placeholder.replace(/[*:]/g, '')
-      : this.generateRandomString(10, true);
+      : this.generateRandomString(10, true, random);
   }
 
-  private generateInvalidData(field: FormField): string {
+  private generateInvalidData(field: FormField, random: () => number = Math.random): string {
     const type = field.type.toLowerCase();
 
     if (type === 'email') {
-      return this.invalidEmails[Math.floor(Math.random() * this.invalidEmails.length)];
+      return this.invalidEmails[Math.floor(random() * this.invalidEmails.length)];
     }
 
     if (type === 'password') {
-      return this.shortPasswords[Math.floor(Math.random() * this.shortPasswords.length)];
+      return this.shortPasswords[Math.floor(random() * this.shortPasswords.length)];
     }
 
     if (type === 'number') {
@@ -109,10 +137,10 @@ export class TestDataGenerator {
       return '99/99/9999';
     }
 
-    return this.specialCharacters[Math.floor(Math.random() * this.specialCharacters.length)];
+    return this.specialCharacters[Math.floor(random() * this.specialCharacters.length)];
   }
 
-  private generateBoundaryData(field: FormField): string {
+  private generateBoundaryData(field: FormField, random: () => number = Math.random): string {
     const type = field.type.toLowerCase();
 
     if (type === 'email') {
@@ -135,7 +163,7 @@ export class TestDataGenerator {
       return 'x';
     }
 
-    return this.generateRandomString(255);
+    return this.generateRandomString(255, false, random);
   }
 
   private generateEmptyData(field: FormField): string {
@@ -166,6 +194,28 @@ export class TestDataGenerator {
     return testData;
   }
 
+  getSecurityPayloads(category?: PayloadCategory): SecurityPayload[] {
+    return category ? SECURITY_PAYLOADS.filter((p) => p.category === category) : SECURITY_PAYLOADS;
+  }
+
+  /**
+   * One data set per security payload, with the payload in every text field and valid data
+   * in the other fields
+   */
+  generateSecurityDataForForm(
+    form: FormInfo
+  ): Array<{ payload: SecurityPayload; data: Record<string, string> }> {
+    return SECURITY_PAYLOADS.map((payload) => ({
+      payload,
+      data: Object.fromEntries(
+        form.fields.map((field) => [
+          field.name,
+          isTextField(field) ? payload.value : this.generateValidData(field),
+        ])
+      ),
+    }));
+  }
+
   getValidCredentials(): { username: string; password: string } {
     return {
       username: this.commonEmails[0],
@@ -200,14 +250,18 @@ export class TestDataGenerator {
     };
   }
 
-  private generateRandomString(length: number, alphanumeric: boolean = false): string {
+  private generateRandomString(
+    length: number,
+    alphanumeric: boolean = false,
+    random: () => number = Math.random
+  ): string {
     const chars = alphanumeric
       ? 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
       : 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()_+-=[]{}|;:,.<>?';
 
     let result = '';
     for (let i = 0; i < length; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+      result += chars.charAt(Math.floor(random() * chars.length));
     }
     return result;
   }
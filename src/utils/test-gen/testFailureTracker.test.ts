@@ -0,0 +1,104 @@
+/**
+ * TestFailureTracker Tests
+ * Pickle results from parallel workers are merged per scenario after the run
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { PickleResult } from './testFailureTracker';
+
+describe('TestFailureTracker worker results', () => {
+  const originalCwd = process.cwd();
+  let workDir: string;
+  let TestFailureTracker: typeof import('./testFailureTracker').TestFailureTracker;
+
+  const pickle = (pickleId: string, passed: boolean, extra: Partial<PickleResult> = {}) => ({
+    pickleId,
+    scenario: 'Login attempts',
+    featureName: 'Login',
+    passed,
+    requirements: ['REQ-1'],
+    error: passed ? undefined : `Row ${pickleId} failed`,
+    durationMs: 1000,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    // The report and worker files are resolved against the working directory on load
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'failure-tracker-'));
+    process.chdir(workDir);
+    jest.resetModules();
+    ({ TestFailureTracker } =
+      require('./testFailureTracker') as typeof import('./testFailureTracker'));
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  test('should fail an outline when a failing row is followed by a passing row', () => {
+    TestFailureTracker.recordPickleResult(pickle('row-1', false));
+    TestFailureTracker.recordPickleResult(pickle('row-2', true));
+
+    expect(TestFailureTracker.mergeWorkerResults()).toBe(1);
+    expect(TestFailureTracker.getScenarioResults()).toEqual([
+      expect.objectContaining({
+        scenario: 'Login attempts',
+        status: 'failed',
+        error: 'Row row-1 failed',
+        runs: 1,
+        failedRuns: 1,
+      }),
+    ]);
+    expect(TestFailureTracker.getFailedTests()).toHaveLength(1);
+  });
+
+  test('should merge the files of every worker and remove them', () => {
+    TestFailureTracker.recordPickleResult(pickle('row-1', true));
+    // A second worker process writes its own file
+    fs.appendFileSync(
+      path.join(workDir, '.cache', 'scenario-results', 'worker-999999.jsonl'),
+      JSON.stringify(pickle('other', false, { scenario: 'Logout' })) + '\n'
+    );
+
+    expect(TestFailureTracker.mergeWorkerResults()).toBe(2);
+    expect(
+      TestFailureTracker.getScenarioResults().map((result) => [result.scenario, result.status])
+    ).toEqual([
+      ['Login attempts', 'passed'],
+      ['Logout', 'failed'],
+    ]);
+    expect(fs.existsSync(path.join(workDir, '.cache', 'scenario-results'))).toBe(false);
+  });
+
+  test('should count a retried pickle with its last attempt', () => {
+    TestFailureTracker.recordPickleResult(pickle('row-1', false));
+    TestFailureTracker.recordPickleResult(pickle('row-1', true));
+    TestFailureTracker.mergeWorkerResults();
+
+    expect(TestFailureTracker.getScenarioResults()[0].status).toBe('passed');
+    expect(TestFailureTracker.hasFailures()).toBe(false);
+  });
+
+  test('should keep one run per scenario and clear its failure once every row passes', () => {
+    TestFailureTracker.recordPickleResult(pickle('row-1', false, { durationMs: 1000 }));
+    TestFailureTracker.recordPickleResult(pickle('row-2', true, { durationMs: 3000 }));
+    TestFailureTracker.mergeWorkerResults();
+
+    TestFailureTracker.recordPickleResult(pickle('row-3', true, { durationMs: 2000 }));
+    TestFailureTracker.recordPickleResult(pickle('row-4', true, { durationMs: 2000 }));
+    TestFailureTracker.mergeWorkerResults();
+
+    expect(TestFailureTracker.getScenarioResults()).toEqual([
+      expect.objectContaining({
+        status: 'passed',
+        runs: 2,
+        failedRuns: 1,
+        averageDurationMs: 2000,
+      }),
+    ]);
+    expect(TestFailureTracker.getFailedTests()).toEqual([]);
+  });
+});
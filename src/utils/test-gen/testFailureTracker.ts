@@ -1,31 +1,80 @@
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
 import * as path from 'path';
 
 export interface FailedTest {
   scenario: string;
   featureName: string;
   error?: string;
+  /** Requirement IDs the scenario is tagged with */
+  requirements?: string[];
   timestamp: number;
 }
 
+export interface ScenarioResult {
+  scenario: string;
+  featureName: string;
+  status: 'passed' | 'failed';
+  requirements: string[];
+  error?: string;
+  timestamp: number;
+  /** Recorded runs of the scenario and how many of them failed */
+  runs?: number;
+  failedRuns?: number;
+  /** Mean duration of the runs that reported one */
+  averageDurationMs?: number;
+}
+
+/**
+ * One executed pickle (a scenario or one Scenario Outline row) as a worker reports it
+ */
+export interface PickleResult {
+  /** Cucumber pickle id, unique per scenario and outline row within a run */
+  pickleId: string;
+  scenario: string;
+  featureName: string;
+  passed: boolean;
+  requirements: string[];
+  error?: string;
+  durationMs?: number;
+}
+
 export interface FailureReport {
   totalTests: number;
   failedTests: number;
   passedTests: number;
   failures: FailedTest[];
+  /** Latest outcome of every scenario run, passed or failed */
+  results?: ScenarioResult[];
   lastRunTime: number;
 }
 
 const FAILURE_TRACKING_FILE = path.resolve('test-failures.json');
 
+/** Pickle results of the running test run, one JSON-lines file per worker process */
+const WORKER_RESULTS_DIR = path.resolve('.cache', 'scenario-results');
+
 export class TestFailureTracker {
-  static recordFailure(scenario: string, featureName: string, error?: string): void {
+  static recordFailure(
+    scenario: string,
+    featureName: string,
+    error?: string,
+    requirements?: string[]
+  ): void {
     const report = this.loadReport();
 
     const failure: FailedTest = {
       scenario,
       featureName,
       error,
+      requirements,
       timestamp: Date.now(),
     };
 
@@ -43,6 +92,129 @@ export class TestFailureTracker {
     this.saveReport(report);
   }
 
+  /**
+   * Records the latest outcome of a scenario and updates its run history; a failure is also
+   * added to the failure list and a pass removes the scenario from it. Call once per scenario
+   * and run; WDIO workers report through recordPickleResult instead.
+   */
+  static recordScenarioResult(
+    scenario: string,
+    featureName: string,
+    passed: boolean,
+    requirements: string[] = [],
+    error?: string,
+    durationMs?: number
+  ): void {
+    if (!passed) {
+      this.recordFailure(scenario, featureName, error, requirements);
+    }
+
+    const report = this.loadReport();
+    const isSame = (r: { scenario: string; featureName: string }) =>
+      r.scenario === scenario && r.featureName === featureName;
+    const previous = (report.results || []).find(isSame);
+    const runs = (previous?.runs ?? 0) + 1;
+    const previousAverage = previous?.averageDurationMs;
+
+    const result: ScenarioResult = {
+      scenario,
+      featureName,
+      status: passed ? 'passed' : 'failed',
+      requirements,
+      error: passed ? undefined : error,
+      timestamp: Date.now(),
+      runs,
+      failedRuns: (previous?.failedRuns ?? 0) + (passed ? 0 : 1),
+      averageDurationMs:
+        durationMs === undefined
+          ? previousAverage
+          : previousAverage === undefined
+            ? durationMs
+            : previousAverage + (durationMs - previousAverage) / runs,
+    };
+
+    report.results = [...(report.results || []).filter((r) => !isSame(r)), result];
+    if (passed) {
+      report.failures = report.failures.filter((f) => !isSame(f));
+    }
+
+    report.lastRunTime = Date.now();
+    this.saveReport(report);
+  }
+
+  /**
+   * Appends a pickle result to this process's own file, so parallel workers never write the
+   * same file; mergeWorkerResults folds the files into the report once the run is complete
+   */
+  static recordPickleResult(result: PickleResult): void {
+    mkdirSync(WORKER_RESULTS_DIR, { recursive: true });
+    appendFileSync(
+      path.join(WORKER_RESULTS_DIR, `worker-${process.pid}.jsonl`),
+      JSON.stringify(result) + '\n'
+    );
+  }
+
+  /**
+   * Records the worker files as one result per scenario and removes them. Retries of a pickle
+   * count with their last attempt; a scenario fails if any of its outline rows failed.
+   *
+   * @returns Number of scenarios recorded
+   */
+  static mergeWorkerResults(): number {
+    if (!existsSync(WORKER_RESULTS_DIR)) {
+      return 0;
+    }
+
+    const pickles = new Map<string, PickleResult>();
+    for (const file of readdirSync(WORKER_RESULTS_DIR).filter((f) => f.endsWith('.jsonl'))) {
+      for (const line of readFileSync(path.join(WORKER_RESULTS_DIR, file), 'utf-8').split('\n')) {
+        try {
+          const result = JSON.parse(line) as PickleResult;
+          pickles.set(result.pickleId, result);
+        } catch {
+          // Empty or partially written line
+        }
+      }
+    }
+
+    const scenarios = new Map<string, PickleResult[]>();
+    for (const result of pickles.values()) {
+      const key = `${result.featureName}\0${result.scenario}`;
+      scenarios.set(key, [...(scenarios.get(key) || []), result]);
+    }
+
+    for (const rows of scenarios.values()) {
+      const failed = rows.find((row) => !row.passed);
+      const durations = rows
+        .map((row) => row.durationMs)
+        .filter((duration): duration is number => duration !== undefined);
+      this.recordScenarioResult(
+        rows[0].scenario,
+        rows[0].featureName,
+        !failed,
+        Array.from(new Set(rows.flatMap((row) => row.requirements))),
+        failed?.error,
+        durations.length
+          ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length
+          : undefined
+      );
+    }
+
+    this.clearWorkerResults();
+    return scenarios.size;
+  }
+
+  /**
+   * Drops worker files left behind by an aborted run
+   */
+  static clearWorkerResults(): void {
+    rmSync(WORKER_RESULTS_DIR, { recursive: true, force: true });
+  }
+
+  static getScenarioResults(): ScenarioResult[] {
+    return this.loadReport().results || [];
+  }
+
   static recordTestResults(total: number, passed: number, failed: number): void {
     const report = this.loadReport();
     report.totalTests = total;
@@ -61,12 +233,16 @@ export class TestFailureTracker {
     return this.loadReport();
   }
 
+  /**
+   * Resets the failure list and counts; scenario results are kept for traceability
+   */
   static clearFailures(): void {
     const report: FailureReport = {
       totalTests: 0,
       failedTests: 0,
       passedTests: 0,
       failures: [],
+      results: this.loadReport().results || [],
       lastRunTime: 0,
     };
     this.saveReport(report);
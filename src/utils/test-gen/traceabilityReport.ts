@@ -0,0 +1,276 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getPickles, getScenarios, parseGherkin } from './gherkinAst';
+import { ScenarioResult, TestFailureTracker } from './testFailureTracker';
+import { ValidationError } from '../errors';
+
+export type TraceabilityStatus = 'passed' | 'failed' | 'not run';
+
+export interface TracedScenario {
+  /** Feature file the scenario is defined in; empty when it is only known from test results */
+  file: string;
+  featureName: string;
+  scenario: string;
+  status: TraceabilityStatus;
+  lastRun?: string;
+  error?: string;
+}
+
+export interface RequirementTrace {
+  requirement: string;
+  scenarios: TracedScenario[];
+  /** Failed if any scenario failed, passed only if every scenario passed */
+  status: TraceabilityStatus;
+}
+
+export interface TraceabilityReport {
+  generatedAt: string;
+  requirements: RequirementTrace[];
+  summary: { requirements: number; passed: number; failed: number; notRun: number };
+}
+
+export const DEFAULT_TRACEABILITY_DIR = 'reports/traceability';
+
+/** Requirement IDs are written as tags like @req:REQ-123 */
+export const REQUIREMENT_TAG_PREFIX = 'req:';
+
+interface DefinedScenario {
+  file: string;
+  featureName: string;
+  scenario: string;
+  requirements: string[];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Tag name (without "@") for a requirement ID
+ */
+export function requirementTag(requirement: string): string {
+  const id = requirement.trim();
+  if (!id || /[\s@#]/.test(id)) {
+    throw new ValidationError(`Invalid requirement ID "${requirement}"`, {
+      reason: 'Requirement IDs must be non-empty and contain no whitespace, "@" or "#"',
+    });
+  }
+  return `${REQUIREMENT_TAG_PREFIX}${id}`;
+}
+
+/**
+ * Requirement IDs among tag names, with or without the leading "@"
+ */
+export function requirementsFromTags(tags: string[]): string[] {
+  const ids = tags
+    .map((tag) => tag.replace(/^@/, ''))
+    .filter((tag) => tag.startsWith(REQUIREMENT_TAG_PREFIX))
+    .map((tag) => tag.slice(REQUIREMENT_TAG_PREFIX.length))
+    .filter(Boolean);
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Requirement-to-scenario traceability
+ *
+ * Requirement tags are read from feature files with the Gherkin parser (feature, scenario
+ * and Examples tags, the same tags Cucumber puts on a pickle) and joined with the latest
+ * scenario results from TestFailureTracker by feature and scenario name. Requirements that
+ * only appear in recorded results (e.g. their feature file was removed) are reported too.
+ */
+export class TraceabilityReporter {
+  build(featureFiles: string[], results: ScenarioResult[]): TraceabilityReport {
+    const key = (featureName: string, scenario: string) => `${featureName}\0${scenario}`;
+    const latest = new Map(
+      results.map((result) => [key(result.featureName, result.scenario), result])
+    );
+    const byRequirement = new Map<string, Map<string, TracedScenario>>();
+
+    const trace = (requirement: string, scenario: TracedScenario) => {
+      const scenarios = byRequirement.get(requirement) || new Map<string, TracedScenario>();
+      const scenarioKey = key(scenario.featureName, scenario.scenario);
+      if (!scenarios.has(scenarioKey)) scenarios.set(scenarioKey, scenario);
+      byRequirement.set(requirement, scenarios);
+    };
+    const toTraced = (
+      file: string,
+      featureName: string,
+      scenario: string,
+      result?: ScenarioResult
+    ): TracedScenario => ({
+      file,
+      featureName,
+      scenario,
+      status: result?.status || 'not run',
+      lastRun: result ? new Date(result.timestamp).toISOString() : undefined,
+      error: result?.error,
+    });
+
+    for (const defined of featureFiles.flatMap((file) => this.readScenarios(file))) {
+      const result = latest.get(key(defined.featureName, defined.scenario));
+      for (const requirement of defined.requirements) {
+        trace(requirement, toTraced(defined.file, defined.featureName, defined.scenario, result));
+      }
+    }
+    for (const result of results) {
+      for (const requirement of result.requirements || []) {
+        trace(requirement, toTraced('', result.featureName, result.scenario, result));
+      }
+    }
+
+    const requirements = Array.from(byRequirement)
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(([requirement, scenarios]) => {
+        const list = Array.from(scenarios.values());
+        const status: TraceabilityStatus = list.some((s) => s.status === 'failed')
+          ? 'failed'
+          : list.every((s) => s.status === 'passed')
+            ? 'passed'
+            : 'not run';
+        return { requirement, scenarios: list, status };
+      });
+    const count = (status: TraceabilityStatus) =>
+      requirements.filter((requirement) => requirement.status === status).length;
+
+    return {
+      generatedAt: new Date().toISOString(),
+      requirements,
+      summary: {
+        requirements: requirements.length,
+        passed: count('passed'),
+        failed: count('failed'),
+        notRun: count('not run'),
+      },
+    };
+  }
+
+  /**
+   * Builds the report from feature files and the results TestFailureTracker has recorded
+   */
+  buildFromTracker(featureFiles: string[]): TraceabilityReport {
+    return this.build(featureFiles, TestFailureTracker.getScenarioResults());
+  }
+
+  /**
+   * Writes traceability.csv and traceability.html to the output directory
+   *
+   * @returns Paths of the written files
+   */
+  writeReport(
+    report: TraceabilityReport,
+    outputDir: string = DEFAULT_TRACEABILITY_DIR
+  ): { csv: string; html: string } {
+    const dir = path.resolve(outputDir);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const csv = path.join(dir, 'traceability.csv');
+    const html = path.join(dir, 'traceability.html');
+    fs.writeFileSync(csv, this.renderCsv(report), 'utf-8');
+    fs.writeFileSync(html, this.renderHtml(report), 'utf-8');
+    return { csv, html };
+  }
+
+  /**
+   * One row per requirement and scenario; requirements without scenarios do not occur
+   */
+  renderCsv(report: TraceabilityReport): string {
+    const header = [
+      'requirement',
+      'requirement_status',
+      'feature',
+      'file',
+      'scenario',
+      'scenario_status',
+      'last_run',
+    ];
+    const rows = report.requirements.flatMap((requirement) =>
+      requirement.scenarios.map((scenario) => [
+        requirement.requirement,
+        requirement.status,
+        scenario.featureName,
+        scenario.file,
+        scenario.scenario,
+        scenario.status,
+        scenario.lastRun || '',
+      ])
+    );
+    return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  renderHtml(report: TraceabilityReport): string {
+    const rows = report.requirements
+      .flatMap((requirement) =>
+        requirement.scenarios.map(
+          (scenario, index) =>
+            `<tr>${
+              index === 0
+                ? `<td rowspan="${requirement.scenarios.length}">${escapeHtml(requirement.requirement)}</td><td rowspan="${requirement.scenarios.length}" class="${this.statusClass(requirement.status)}">${requirement.status}</td>`
+                : ''
+            }<td title="${escapeHtml(scenario.file)}">${escapeHtml(scenario.featureName)}</td><td>${escapeHtml(scenario.scenario)}</td><td class="${this.statusClass(scenario.status)}"${
+              scenario.error ? ` title="${escapeHtml(scenario.error)}"` : ''
+            }>${scenario.status}</td><td>${escapeHtml(scenario.lastRun || '')}</td></tr>`
+        )
+      )
+      .join('\n');
+    const { requirements, passed, failed, notRun } = report.summary;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Requirement traceability</title>
+<style>
+  body { font-family: sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+  td.passed { background: #e6f4ea; color: #1a7f37; }
+  td.failed { background: #fff1f0; color: #cf222e; }
+  td.not-run { color: #6e7781; }
+</style>
+</head>
+<body>
+<h1>Requirement traceability</h1>
+<p>${requirements} requirements: ${passed} passed, ${failed} failed, ${notRun} not run. Generated ${escapeHtml(report.generatedAt)}.</p>
+<table>
+<thead><tr><th>Requirement</th><th>Status</th><th>Feature</th><th>Scenario</th><th>Result</th><th>Last run</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+  }
+
+  private statusClass(status: TraceabilityStatus): string {
+    return status.replace(' ', '-');
+  }
+
+  /**
+   * Scenarios (one per outline row) with the requirements Cucumber would tag their pickles with
+   */
+  private readScenarios(file: string): DefinedScenario[] {
+    const feature = parseGherkin(fs.readFileSync(file, 'utf-8')).document?.feature;
+    if (!feature) return [];
+
+    const featureTags = feature.tags.map((tag) => tag.name);
+    return getScenarios(feature).flatMap((scenario) =>
+      getPickles(scenario).map((pickle) => ({
+        file: path.relative(process.cwd(), file),
+        featureName: feature.name,
+        scenario: pickle.name,
+        requirements: requirementsFromTags([...featureTags, ...pickle.tags]),
+      }))
+    );
+  }
+}
+
+export const traceabilityReporter = new TraceabilityReporter();
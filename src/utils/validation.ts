@@ -77,4 +77,16 @@ export class InputValidator {
 
     return timeoutNum;
   }
+
+  static validateBudget(minutes: unknown): number {
+    const minutesNum = Number(minutes);
+
+    if (typeof minutes === 'boolean' || isNaN(minutesNum) || minutesNum <= 0) {
+      throw new ValidationError('Budget must be a positive number of minutes', {
+        received: minutes,
+      });
+    }
+
+    return minutesNum;
+  }
 }
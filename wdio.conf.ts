@@ -1,5 +1,11 @@
+/// <reference types="@wdio/cucumber-framework" />
 import fetch from 'node-fetch';
 import { execSync, spawn } from 'child_process';
+import { SevereServiceError } from 'webdriverio';
+import { OllamaService } from './src/services/ollamaService';
+import { getConfigManager } from './src/config';
+import { TestFailureTracker } from './src/utils/test-gen/testFailureTracker';
+import { requirementsFromTags } from './src/utils/test-gen/traceabilityReport';
 
 let ollamaProcess: any = null;
 
@@ -175,7 +181,23 @@ export const config: WebdriverIO.Config = {
      * @param {Array.<Object>} capabilities list of capabilities details
      */
     onPrepare: async function (config, capabilities) {
-        const ollamaUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+        // An unknown LLM_PROVIDER or LLM_CASSETTE_MODE must not fall back to a live Ollama call
+        try {
+            getConfigManager().assertValid();
+        } catch (error) {
+            throw new SevereServiceError(error instanceof Error ? error.message : String(error));
+        }
+
+        TestFailureTracker.clearWorkerResults();
+
+        const ollamaService = new OllamaService();
+        const llmConfig = getConfigManager().getLlmConfig();
+        if (!ollamaService.usesOllama()) {
+            console.log(`\n🤖 LLM_PROVIDER=${llmConfig.provider} - skipping the Ollama service and model check`);
+            return;
+        }
+
+        const ollamaUrl = llmConfig.baseUrl;
         
         async function isOllamaHealthy(): Promise<boolean> {
             try {
@@ -249,20 +271,35 @@ export const config: WebdriverIO.Config = {
         }
         
         console.log(`\n🔍 Checking Ollama service at ${ollamaUrl}...`);
-        const isHealthy = await isOllamaHealthy();
+        let isRunning = await isOllamaHealthy();
         
-        if (isHealthy) {
+        if (isRunning) {
             console.log('✅ Ollama health check PASSED - AI features enabled');
         } else {
             console.warn('⚠️  Ollama is not responding. Attempting to start...');
-            const started = await startOllama();
-            if (!started) {
+            isRunning = await startOllama();
+            if (!isRunning) {
                 console.warn('\n⚠️  AI-powered step generation will use fallback implementations');
             }
         }
+        
+        // Fail before any worker spawns if the model is missing or not the pinned version
+        if (isRunning || process.env.OLLAMA_MODEL_DIGEST) {
+            try {
+                await ollamaService.prepareModel();
+            } catch (error) {
+                throw new SevereServiceError(error instanceof Error ? error.message : String(error));
+            }
+        }
     },
     
     onComplete: async function (exitCode, config, capabilities, results) {
+        // Workers only wrote their own result files; the launcher records them in one place
+        const recorded = TestFailureTracker.mergeWorkerResults();
+        if (recorded > 0) {
+            console.log(`📊 Recorded results of ${recorded} scenario(s) in test-failures.json`);
+        }
+
         if (ollamaProcess) {
             try {
                 ollamaProcess.kill('SIGTERM');
@@ -370,8 +407,19 @@ export const config: WebdriverIO.Config = {
      * @param {number}                 result.duration  duration of scenario in milliseconds
      * @param {object}                 context          Cucumber World object
      */
-    // afterScenario: function (world, result, context) {
-    // },
+    afterScenario: function (world, result) {
+        // Outcome and duration per pickle (outline rows share a name), with its @req: tags,
+        // for traceability and smoke selection; merged per scenario in onComplete
+        TestFailureTracker.recordPickleResult({
+            pickleId: world.pickle.id,
+            scenario: world.pickle.name,
+            featureName: world.gherkinDocument?.feature?.name || '',
+            passed: result.passed,
+            requirements: requirementsFromTags((world.pickle.tags || []).map((tag) => tag.name)),
+            error: result.error,
+            durationMs: result.duration,
+        });
+    },
     /**
      *
      * Runs after a Cucumber Feature.